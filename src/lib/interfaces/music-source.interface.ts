@@ -0,0 +1,9 @@
+import type { PlaylistData } from './spotify.interface';
+
+// A service that turns a source string (link, URI or ID) into a song pool
+export interface MusicSourceProvider {
+	/** Name used to select the provider with MUSIC_PROVIDER (e.g. "spotify", "mock") */
+	name: string;
+	/** Fetch the songs behind a source string */
+	resolve(source: string): Promise<PlaylistData>;
+}
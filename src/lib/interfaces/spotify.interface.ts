@@ -26,11 +26,42 @@ export interface SpotifyAlbum {
 	id: string;
 	name: string;
 	images: SpotifyImage[];
+	release_date: string;
+	release_date_precision: 'year' | 'month' | 'day';
 	external_urls: {
 		spotify: string;
 	};
 }
 
+export interface SpotifyPaging<T> {
+	href: string;
+	items: T[];
+	limit: number;
+	next: string | null;
+	offset: number;
+	previous: string | null;
+	total: number;
+}
+
+// Track as listed inside an album (no album field)
+export interface SpotifySimplifiedTrack {
+	id: string;
+	name: string;
+	artists: SpotifyArtist[];
+	external_urls: {
+		spotify: string;
+	};
+	duration_ms: number;
+	uri: string;
+}
+
+export interface SpotifyFullAlbum extends SpotifyAlbum {
+	album_type: 'album' | 'single' | 'compilation';
+	artists: SpotifyArtist[];
+	total_tracks: number;
+	tracks: SpotifyPaging<SpotifySimplifiedTrack>;
+}
+
 export interface SpotifyTrack {
 	id: string;
 	name: string;
@@ -82,6 +113,8 @@ export interface SpotifyPlaylist {
 	};
 	href: string;
 	images: SpotifyImage[];
+	/** Version of the playlist, changes whenever its tracks change */
+	snapshot_id: string;
 	tracks: {
 		href: string;
 		limit: number;
@@ -177,10 +210,17 @@ export interface PlaylistSongInfo {
 	name: string;
 	artist: string;
 	artists: string[];
+	album: string;
+	/** Album release date: "YYYY", "YYYY-MM" or "YYYY-MM-DD" depending on precision */
+	releaseDate: string | null;
 	uri: string;
 	link: string;
 	image: string | null;
 	durationMs: number;
+	/** Relative chance of landing on a board (default: 1) */
+	weight?: number;
+	/** Indexes into PlaylistData.sources of the playlists this song came from */
+	sources?: number[];
 }
 
 export interface PlaylistData {
@@ -191,4 +231,22 @@ export interface PlaylistData {
 	totalTracks: number;
 	playlistLink: string;
 	songs: PlaylistSongInfo[];
+	/** The playlists a merged pool was built from */
+	sources?: PlaylistSourceSummary[];
+	/** Set for song lists imported from a file or pasted text (there is no link to refetch) */
+	imported?: boolean;
+}
+
+// A playlist to draw songs from, as submitted by the user
+export interface PlaylistSource {
+	link: string;
+	/** Relative weight of this playlist's songs (default: 1) */
+	weight?: number;
+}
+
+export interface PlaylistSourceSummary extends PlaylistSource {
+	id: string;
+	name: string;
+	/** Number of songs in the playlist before de-duplication */
+	trackCount: number;
 }
@@ -0,0 +1,228 @@
+/**
+ * Call deck: small cut-out cards, one per song, for hosts who draw songs from a hat
+ * Cards are rendered with Canvas like the boards, then tiled onto PDF pages with cut lines
+ */
+
+import { createCanvas, type SKRSContext2D } from '@napi-rs/canvas';
+import { PDFDocument, rgb, type PDFPage } from 'pdf-lib';
+import type { PlaylistSongInfo } from '$lib/interfaces/spotify.interface';
+import { formatDuration } from '$lib/utils/playlist';
+import {
+	DEFAULT_PRINT_LAYOUT,
+	getPageDimensions,
+	POINTS_PER_MM,
+	type PageSize
+} from '$lib/utils/print-layout';
+import { fitTextToBox, getRenderConcurrency, registerCanvasFonts } from './canvas-pdf-export';
+import { forEachWithConcurrency } from './concurrency';
+import { loadCachedImage } from './image-cache';
+import { getWrapTokens } from './text-fit';
+
+// Smallest card size; cards are stretched to fill the page evenly
+const MIN_CARD_WIDTH_MM = 63;
+const MIN_CARD_HEIGHT_MM = 38;
+
+const PAGE_MARGIN_MM = 8;
+
+// Cards are rendered at 150 DPI, like the boards
+const RENDER_DPI = 150;
+
+export interface CallDeckOptions {
+	/** Page size; the deck is always portrait (default: A4) */
+	pageSize?: PageSize;
+	/** Cards in progress at once (default: EXPORT_CONCURRENCY, or 4) */
+	concurrency?: number;
+}
+
+/**
+ * Get the font size at which the longest unbreakable piece of the text (a word, or a character
+ * of text without spaces) is exactly maxWidth wide
+ */
+function getLongestWordSize(ctx: SKRSContext2D, text: string, maxWidth: number): number {
+	const referenceSize = 100;
+	ctx.font = `${referenceSize}px "NotoSansJP", sans-serif`;
+	const widest = Math.max(...getWrapTokens(text).map((token) => ctx.measureText(token).width));
+	return widest > 0 ? (referenceSize * maxWidth) / widest : referenceSize;
+}
+
+/**
+ * Generate the image of one calling card: album art on the left, then the title, artist
+ * and duration
+ * @param size Card size in pixels
+ */
+export async function generateCallCardImage(
+	song: PlaylistSongInfo,
+	size: { width: number; height: number }
+): Promise<Buffer> {
+	registerCanvasFonts();
+
+	const width = Math.round(size.width);
+	const height = Math.round(size.height);
+	const canvas = createCanvas(width, height);
+	const ctx = canvas.getContext('2d');
+
+	ctx.fillStyle = '#ffffff';
+	ctx.fillRect(0, 0, width, height);
+
+	const padding = height * 0.08;
+	let textLeft = padding;
+
+	// Album art, cropped to a square
+	if (song.image) {
+		try {
+			const img = await loadCachedImage(song.image);
+			const side = Math.min(height - padding * 2, width * 0.3);
+			const crop = Math.min(img.width, img.height);
+			ctx.drawImage(
+				img,
+				(img.width - crop) / 2,
+				(img.height - crop) / 2,
+				crop,
+				crop,
+				padding,
+				(height - side) / 2,
+				side,
+				side
+			);
+			textLeft = padding * 2 + side;
+		} catch {
+			// Leave the art out
+		}
+	}
+
+	const textWidth = width - textLeft - padding;
+	const textHeight = height - padding * 2;
+	const durationSize = height * 0.09;
+	ctx.fillStyle = '#000000';
+	ctx.textAlign = 'left';
+	ctx.textBaseline = 'top';
+
+	// Title (bold, so measured with some width spare), then the artists underneath
+	// Wrapping only breaks between words (or characters without spaces), so start small enough
+	// for the longest of those to fit
+	const titleWidth = textWidth * 0.9;
+	const titleSize = Math.min(height * 0.16, getLongestWordSize(ctx, song.name, titleWidth));
+	const title = fitTextToBox(ctx, song.name, titleWidth, textHeight * 0.55, 3, titleSize);
+	ctx.font = `700 ${title.fontSize}px "NotoSansJP", sans-serif`;
+	let textY = padding;
+	for (const line of title.lines) {
+		ctx.fillText(line, textLeft, textY);
+		textY += title.lineHeight;
+	}
+
+	const artists = song.artists.length > 0 ? song.artists.join(', ') : song.artist;
+	const artistBox = textHeight - (textY - padding) - durationSize * 1.2;
+	if (artists && artistBox > 0) {
+		const artistSize = Math.min(height * 0.11, getLongestWordSize(ctx, artists, textWidth));
+		const artist = fitTextToBox(ctx, artists, textWidth, artistBox, 2, artistSize);
+		ctx.font = `${artist.fontSize}px "NotoSansJP", sans-serif`;
+		textY += title.lineHeight * 0.2;
+		for (const line of artist.lines) {
+			ctx.fillText(line, textLeft, textY);
+			textY += artist.lineHeight;
+		}
+	}
+
+	if (song.durationMs > 0) {
+		ctx.font = `${durationSize}px "NotoSansJP", sans-serif`;
+		ctx.textAlign = 'right';
+		ctx.textBaseline = 'bottom';
+		ctx.fillText(formatDuration(song.durationMs), width - padding, height - padding);
+	}
+
+	return canvas.encode('png');
+}
+
+/**
+ * Draw dashed cut lines along every card edge, across the whole grid of cards
+ * @param left Left edge of the grid, in points
+ * @param top Top edge of the grid, in points from the top of the page
+ */
+function drawCutLines(
+	page: PDFPage,
+	grid: { columns: number; rows: number },
+	left: number,
+	top: number,
+	cardWidth: number,
+	cardHeight: number
+) {
+	const pageHeight = page.getHeight();
+	const right = left + grid.columns * cardWidth;
+	const bottom = top + grid.rows * cardHeight;
+	const style = { thickness: 0.5, color: rgb(0.5, 0.5, 0.5), dashArray: [4, 3] };
+
+	for (let col = 0; col <= grid.columns; col++) {
+		const x = left + col * cardWidth;
+		page.drawLine({
+			start: { x, y: pageHeight - top },
+			end: { x, y: pageHeight - bottom },
+			...style
+		});
+	}
+	for (let row = 0; row <= grid.rows; row++) {
+		const y = pageHeight - (top + row * cardHeight);
+		page.drawLine({ start: { x: left, y }, end: { x: right, y }, ...style });
+	}
+}
+
+/**
+ * Generate the call deck as a PDF: one card per song, as many per page as fit
+ * A few cards are in progress at once, like the boards, and each is embedded as soon as it's
+ * ready
+ */
+export async function generateCallDeckPDF(
+	songs: PlaylistSongInfo[],
+	options: CallDeckOptions = {}
+): Promise<Buffer> {
+	const pdfDoc = await PDFDocument.create();
+
+	const { width: pageWidth, height: pageHeight } = getPageDimensions({
+		...DEFAULT_PRINT_LAYOUT,
+		pageSize: options.pageSize ?? DEFAULT_PRINT_LAYOUT.pageSize,
+		orientation: 'portrait'
+	});
+	const margin = PAGE_MARGIN_MM * POINTS_PER_MM;
+	const contentWidth = pageWidth - margin * 2;
+	const contentHeight = pageHeight - margin * 2;
+	const grid = {
+		columns: Math.max(1, Math.floor(contentWidth / (MIN_CARD_WIDTH_MM * POINTS_PER_MM))),
+		rows: Math.max(1, Math.floor(contentHeight / (MIN_CARD_HEIGHT_MM * POINTS_PER_MM)))
+	};
+	const cardWidth = contentWidth / grid.columns;
+	const cardHeight = contentHeight / grid.rows;
+	const perPage = grid.columns * grid.rows;
+
+	const imageSize = {
+		width: (cardWidth / 72) * RENDER_DPI,
+		height: (cardHeight / 72) * RENDER_DPI
+	};
+
+	let page = pdfDoc.addPage([pageWidth, pageHeight]);
+	await forEachWithConcurrency(
+		songs,
+		getRenderConcurrency(options.concurrency),
+		(song) => generateCallCardImage(song, imageSize),
+		async (buffer, i) => {
+			const c = i % perPage;
+			if (c === 0 && i > 0) page = pdfDoc.addPage([pageWidth, pageHeight]);
+
+			const image = await pdfDoc.embedPng(buffer);
+			const col = c % grid.columns;
+			const row = Math.floor(c / grid.columns);
+			page.drawImage(image, {
+				x: margin + col * cardWidth,
+				y: pageHeight - margin - (row + 1) * cardHeight,
+				width: cardWidth,
+				height: cardHeight
+			});
+
+			// Cut lines go over the cards once the page is full
+			if (c === perPage - 1 || i === songs.length - 1) {
+				drawCutLines(page, grid, margin, margin, cardWidth, cardHeight);
+			}
+		}
+	);
+
+	const pdfBytes = await pdfDoc.save();
+	return Buffer.from(pdfBytes);
+}
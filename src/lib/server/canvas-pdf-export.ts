@@ -1,155 +1,355 @@
-import { createCanvas, GlobalFonts, loadImage } from '@napi-rs/canvas';
+import { createCanvas, GlobalFonts, type SKRSContext2D } from '@napi-rs/canvas';
 import path from 'node:path';
+import { env } from '$env/dynamic/private';
 import JSZip from 'jszip';
-import { PDFDocument } from 'pdf-lib';
-import type { BingoBoard } from '$lib/utils/bingo';
+import QRCode from 'qrcode';
+import { PDFDocument, rgb, type PDFPage } from 'pdf-lib';
+import {
+	formatBoardSerial,
+	getFreeSpaceLabel,
+	isFreeCell,
+	type BingoBoard
+} from '$lib/utils/bingo';
+import type { CardBranding } from '$lib/utils/card-branding';
+import {
+	ART_WASH_OPACITY,
+	CARD_FONT_FILES,
+	DEFAULT_CARD_THEME,
+	FALLBACK_FONT_FAMILY,
+	getBorderDash,
+	getCellFill,
+	getCellInset,
+	getFontFamilies,
+	TEXT_WEIGHTS,
+	type CardTheme
+} from '$lib/utils/card-theme';
+import {
+	DEFAULT_PRINT_LAYOUT,
+	getBoardSlots,
+	getPageDimensions,
+	type BoardSlot,
+	type PrintLayoutOptions
+} from '$lib/utils/print-layout';
+import { getCardLayout, QR_QUIET_ZONE } from './card-layout';
+import { forEachWithConcurrency } from './concurrency';
+import { loadCachedImage, type CachedImage } from './image-cache';
+import {
+	fitTextToBox as fitMeasuredText,
+	wrapText,
+	type FittedText,
+	type MeasureText
+} from './text-fit';
+
+// A4 dimensions at 150 DPI: 1240 x 1754 pixels
+const DEFAULT_IMAGE_SIZE = { width: 1240, height: 1754 };
+
+// Font family list text is measured in unless a theme's fonts are given
+const DEFAULT_FONTS = `"${FALLBACK_FONT_FAMILY}", sans-serif`;
+
+// Boards are rendered at 150 DPI for the PDF
+const RENDER_DPI = 150;
+
+// Boards in progress at once unless EXPORT_CONCURRENCY says otherwise
+const DEFAULT_RENDER_CONCURRENCY = 4;
+
+// Crop mark length and gap to the board, in points
+const CROP_MARK_LENGTH = 18;
+const CROP_MARK_OFFSET = 3;
+
+export interface BoardImageOptions {
+	/** Image size in pixels (default: A4 portrait at 150 DPI) */
+	size?: { width: number; height: number };
+	/** Event title, logo, serial and footer to print around the grid */
+	branding?: CardBranding;
+	/** Link encoded in a QR code in the footer row (e.g. the digital version of the board) */
+	qrUrl?: string;
+	/** Colours, text weight, borders and album art style (default: classic black on white) */
+	theme?: CardTheme;
+	/** Downscale album art to the cell size before drawing (less memory, faster for big sets) */
+	downscaleArt?: boolean;
+}
+
+export interface CanvasExportOptions {
+	/** Page layout for the PDF (default: two boards per A4 landscape page) */
+	layout?: PrintLayoutOptions;
+	branding?: CardBranding;
+	/** Link for each board's QR code; no QR codes are drawn without it */
+	getBoardUrl?: (board: BingoBoard, boardNumber: number) => string;
+	theme?: CardTheme;
+	downscaleArt?: boolean;
+	/** Boards in progress at once (default: EXPORT_CONCURRENCY, or 4) */
+	concurrency?: number;
+}
+
+/**
+ * Get how many images to have in progress at once: the option, else EXPORT_CONCURRENCY, else
+ * the default
+ * Drawing runs on the main thread one image at a time; what overlaps is loading album art
+ * and PNG encoding, which runs off the main thread
+ */
+export function getRenderConcurrency(concurrency?: number): number {
+	const configured = concurrency ?? Number(env.EXPORT_CONCURRENCY);
+	return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_RENDER_CONCURRENCY;
+}
+
+/**
+ * Draw a QR code as filled squares, on a white background with a quiet zone
+ * Module edges are rounded to whole pixels so scanners don't see seams between modules
+ */
+function drawQrCode(ctx: SKRSContext2D, text: string, x: number, y: number, side: number) {
+	const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+	const moduleSize = side / (modules.size + QR_QUIET_ZONE * 2);
+	const edge = (index: number, origin: number) =>
+		Math.round(origin + (index + QR_QUIET_ZONE) * moduleSize);
+
+	ctx.fillStyle = '#ffffff';
+	ctx.fillRect(x, y, side, side);
+	ctx.fillStyle = '#000000';
+	for (let row = 0; row < modules.size; row++) {
+		const top = edge(row, y);
+		const bottom = edge(row + 1, y);
+		for (let col = 0; col < modules.size; col++) {
+			if (modules.get(row, col)) {
+				const left = edge(col, x);
+				ctx.fillRect(left, top, edge(col + 1, x) - left, bottom - top);
+			}
+		}
+	}
+}
+
+/**
+ * Ensure Noto Sans JP and the theme fonts are available to the canvas text renderer
+ * Theme fonts without a font file are skipped, and text in them falls back to Noto Sans JP
+ * Safe to call multiple times; duplicate registrations are ignored
+ */
+export function registerCanvasFonts() {
+	for (const [family, file] of Object.entries(CARD_FONT_FILES)) {
+		try {
+			GlobalFonts.registerFromPath(path.join(process.cwd(), file), family);
+		} catch {
+			// Ignore if registration fails; canvas may fallback to system fonts
+		}
+	}
+}
+
+// Measure text in the regular face of a font family list (default: Noto Sans JP)
+function measureWith(ctx: SKRSContext2D, fonts = DEFAULT_FONTS): MeasureText {
+	return (text, fontSize) => {
+		ctx.font = `${fontSize}px ${fonts}`;
+		return ctx.measureText(text).width;
+	};
+}
+
+/**
+ * Wrap text into lines no wider than maxWidth on a canvas
+ */
+export function measureWrappedLines(
+	ctx: SKRSContext2D,
+	text: string,
+	fontSize: number,
+	maxWidth: number,
+	fonts?: string
+): string[] {
+	return wrapText(text, fontSize, maxWidth, measureWith(ctx, fonts));
+}
+
+/**
+ * Shrink text on a canvas until its first maxLines lines fit the box
+ * Measured at regular weight: leave some width spare for bold text
+ * @param fonts CSS font family list the text is drawn in (default: Noto Sans JP)
+ */
+export function fitTextToBox(
+	ctx: SKRSContext2D,
+	text: string,
+	boxWidth: number,
+	boxHeight: number,
+	maxLines: number,
+	baseFontSize: number,
+	fonts?: string
+): FittedText {
+	return fitMeasuredText(
+		text,
+		boxWidth,
+		boxHeight,
+		maxLines,
+		baseFontSize,
+		measureWith(ctx, fonts)
+	);
+}
+
+// Trace a rectangle with rounded corners as the current path
+function traceRoundedRect(
+	ctx: SKRSContext2D,
+	x: number,
+	y: number,
+	width: number,
+	height: number,
+	radius: number
+) {
+	ctx.beginPath();
+	ctx.moveTo(x + radius, y);
+	ctx.arcTo(x + width, y, x + width, y + height, radius);
+	ctx.arcTo(x + width, y + height, x, y + height, radius);
+	ctx.arcTo(x, y + height, x, y, radius);
+	ctx.arcTo(x, y, x + width, y, radius);
+	ctx.closePath();
+}
+
+// Cover-fit an image in a square, centred; clip first to keep the overflow out
+function drawImageCover(
+	ctx: SKRSContext2D,
+	img: CachedImage,
+	x: number,
+	y: number,
+	side: number
+) {
+	const scale = Math.max(side / img.width, side / img.height);
+	const dw = img.width * scale;
+	const dh = img.height * scale;
+	ctx.drawImage(img, x + (side - dw) / 2, y + (side - dh) / 2, dw, dh);
+}
 
 /**
  * Generate a PDF-like image for a bingo board using Canvas
  * This properly supports international characters including Japanese
+ * The square grid is centred on the image, between the branding header and footer
+ * @param boardNumber 1-based serial of the board in its set, printed with the branding serial
  */
 export async function generateBoardImage(
 	board: BingoBoard,
 	boardNumber: number,
-	showFreeSpace: boolean = true
+	options: BoardImageOptions = {}
 ): Promise<Buffer> {
-    // Ensure Noto Sans JP is available to the canvas text renderer
-    // Safe to call multiple times; duplicate registrations are ignored
-    try {
-        GlobalFonts.registerFromPath(
-            path.join(process.cwd(), 'NotoSansJP-VariableFont_wght.ttf'),
-            'NotoSansJP'
-        );
-    } catch {
-        // Ignore if registration fails; canvas may fallback to system fonts
-    }
+	const {
+		size = DEFAULT_IMAGE_SIZE,
+		branding,
+		qrUrl,
+		theme = DEFAULT_CARD_THEME,
+		downscaleArt
+	} = options;
+	const { palette } = theme;
+	registerCanvasFonts();
 	const gridSize = board.cells.length;
 
-	// A4 dimensions at 150 DPI: 1240 x 1754 pixels
-	const width = 1240;
-	const height = 1754;
+	const width = Math.round(size.width);
+	const height = Math.round(size.height);
 	const canvas = createCanvas(width, height);
 	const ctx = canvas.getContext('2d');
 
-	// White background
-	ctx.fillStyle = '#ffffff';
+	// Background
+	ctx.fillStyle = palette.background;
 	ctx.fillRect(0, 0, width, height);
 
-	// Title removed per request
-
-	// Calculate grid dimensions
-	const gridMargin = 60;
-	const availableWidth = width - (gridMargin * 2);
-	const cellSize = availableWidth / gridSize;
-	const gridHeight = cellSize * gridSize;
-	const gridTop = (height - gridHeight) / 2;
-
-	// Helpers for wrapping and fitting text within a box
-	function measureWrappedLines(text: string, fontSize: number, maxWidth: number): string[] {
-		const hasSpaces = /\s/.test(text);
-		const tokens = hasSpaces ? text.split(/\s+/) : Array.from(text);
-		const lines: string[] = [];
-		let current = '';
-		ctx.font = `${fontSize}px "NotoSansJP", sans-serif`;
-		for (const token of tokens) {
-			const test = current ? (hasSpaces ? `${current} ${token}` : `${current}${token}`) : token;
-			if (ctx.measureText(test).width <= maxWidth) {
-				current = test;
-			} else {
-				if (current) lines.push(current);
-				current = token;
-			}
-		}
-		if (current) lines.push(current);
-		return lines;
-	}
-
-	function fitTextToBox(
-		text: string,
-		boxWidth: number,
-		boxHeight: number,
-		maxLines: number,
-		baseFontSize: number
-	): { lines: string[]; fontSize: number; lineHeight: number } {
-		let fontSize = baseFontSize;
-		const minFont = Math.max(10, baseFontSize * 0.5);
-		for (; fontSize >= minFont; fontSize -= 1) {
-			const lineHeight = fontSize * 1.2;
-			const lines = measureWrappedLines(text, fontSize, boxWidth);
-			const clipped = lines.slice(0, maxLines);
-			const totalHeight = clipped.length * lineHeight;
-			if (totalHeight <= boxHeight) {
-				return { lines: clipped, fontSize, lineHeight };
-			}
-		}
-		const finalFont = minFont;
-		const finalLineHeight = finalFont * 1.2;
-		return {
-			lines: measureWrappedLines(text, finalFont, boxWidth).slice(0, maxLines),
-			fontSize: finalFont,
-			lineHeight: finalLineHeight
-		};
-	}
+	// Calculate grid dimensions, leaving room for the branding header and footer
+	const {
+		brandingGap,
+		headerHeight,
+		footerHeight,
+		footerFontSize: footerTextSize,
+		qrSide,
+		gridLeft,
+		gridTop,
+		gridSide,
+		cellSize
+	} = getCardLayout(width, height, gridSize, { branding, qrCode: !!qrUrl });
 
-	// Draw grid
-	ctx.strokeStyle = '#000000';
-	ctx.lineWidth = 3;
+	const fonts = getFontFamilies(theme);
+	const emojiFonts = getFontFamilies(theme, true);
+	const weight = TEXT_WEIGHTS[theme.textWeight];
+	const cellInset = getCellInset(theme, cellSize);
+	const cellSide = cellSize - cellInset * 2;
+	const cellRadius = cellSide * theme.cellRadius;
+	// Album art is never drawn bigger than a cell
+	const artMaxSide = downscaleArt ? cellSide : undefined;
 
 	for (let i = 0; i < gridSize; i++) {
 		for (let j = 0; j < gridSize; j++) {
-			const x = gridMargin + (j * cellSize);
-			const y = gridTop + (i * cellSize);
+			const x = gridLeft + (j * cellSize) + cellInset;
+			const y = gridTop + (i * cellSize) + cellInset;
 			const cell = board.cells[i][j];
+			const fill = isFreeCell(cell) ? palette.freeCell : getCellFill(theme, i, j);
 
-			// Draw cell border
-			ctx.strokeRect(x, y, cellSize, cellSize);
-
-			// Check if it's the free space
-			const isFreeSpace = showFreeSpace && gridSize === 5 && i === 2 && j === 2;
+			// Cell fill
+			ctx.fillStyle = fill;
+			traceRoundedRect(ctx, x, y, cellSide, cellSide, cellRadius);
+			ctx.fill();
 
-			// Draw text
-			ctx.fillStyle = '#000000';
 			ctx.textAlign = 'center';
 			ctx.textBaseline = 'middle';
 
-			if (isFreeSpace) {
-				ctx.font = `900 ${cellSize * 0.2}px "NotoSansJP", sans-serif`;
-				ctx.fillText('FREE', x + cellSize / 2, y + cellSize / 2);
+			if (isFreeCell(cell)) {
+				const content = board.freeSpace;
+				const padding = cellSide * 0.1;
+				let drewImage = false;
+
+				if (content?.type === 'image') {
+					try {
+						// Contain-fit the logo inside the cell
+						const img = await loadCachedImage(content.src);
+						const box = cellSide - padding * 2;
+						const scale = Math.min(box / img.width, box / img.height);
+						const dw = img.width * scale;
+						const dh = img.height * scale;
+						ctx.drawImage(img, x + (cellSide - dw) / 2, y + (cellSide - dh) / 2, dw, dh);
+						drewImage = true;
+					} catch {
+						// fall back to the text label
+					}
+				}
+
+				if (!drewImage) {
+					const label = content?.type === 'image' ? 'FREE' : getFreeSpaceLabel(content);
+					const baseFontSize = content?.type === 'emoji' ? cellSide * 0.5 : cellSide * 0.2;
+					const box = cellSide - padding * 2;
+					const { lines, fontSize, lineHeight } = fitTextToBox(ctx, label, box, box, 3, baseFontSize, emojiFonts);
+					ctx.font = `900 ${fontSize}px ${emojiFonts}`;
+					ctx.fillStyle = palette.freeText;
+					let textY = y + (cellSide - lines.length * lineHeight) / 2 + lineHeight / 2;
+					for (const line of lines) {
+						ctx.fillText(line, x + cellSide / 2, textY);
+						textY += lineHeight;
+					}
+				}
 			} else {
-				const padding = Math.max(8, cellSize * 0.04);
+				const padding = Math.max(8, cellSide * 0.04);
 				const innerX = x + padding;
 				const innerY = y + padding;
-				const innerW = cellSize - padding * 2;
-				const innerH = cellSize - padding * 2;
+				const innerW = cellSide - padding * 2;
+				const innerH = cellSide - padding * 2;
+
+				// Album art behind the title, under a wash of the cell fill
+				if (theme.albumArt === 'background' && cell.song.image) {
+					try {
+						const img = await loadCachedImage(cell.song.image, artMaxSide);
+						ctx.save();
+						traceRoundedRect(ctx, x, y, cellSide, cellSide, cellRadius);
+						ctx.clip();
+						drawImageCover(ctx, img, x, y, cellSide);
+						ctx.globalAlpha = ART_WASH_OPACITY;
+						ctx.fillStyle = fill;
+						ctx.fill();
+						ctx.restore();
+					} catch {
+						// ignore
+					}
+				}
 
 				// Album art area (top portion) if available
-				const hasImage = !!cell.song.image;
+				const hasImage = theme.albumArt === 'on' && !!cell.song.image;
 				const artAreaHeight = hasImage ? innerH * 0.45 : 0;
 				const textAreaY = innerY + artAreaHeight + (hasImage ? padding * 0.5 : 0);
 				const textAreaHeight = innerY + innerH - textAreaY;
 
 				if (hasImage) {
 					try {
-						const img = await loadImage(cell.song.image as string);
+						const img = await loadCachedImage(cell.song.image as string, artMaxSide);
 						const targetSize = Math.min(innerW, artAreaHeight);
 						const artX = innerX + (innerW - targetSize) / 2;
 						const artY = innerY + (artAreaHeight - targetSize) / 2;
 						ctx.save();
-						const radius = Math.max(4, targetSize * 0.04);
-						ctx.beginPath();
-						ctx.moveTo(artX + radius, artY);
-						ctx.arcTo(artX + targetSize, artY, artX + targetSize, artY + targetSize, radius);
-						ctx.arcTo(artX + targetSize, artY + targetSize, artX, artY + targetSize, radius);
-						ctx.arcTo(artX, artY + targetSize, artX, artY, radius);
-						ctx.arcTo(artX, artY, artX + targetSize, artY, radius);
-						ctx.closePath();
+						traceRoundedRect(ctx, artX, artY, targetSize, targetSize, Math.max(4, targetSize * 0.04));
 						ctx.clip();
-						const scale = Math.max(targetSize / img.width, targetSize / img.height);
-						const dw = img.width * scale;
-						const dh = img.height * scale;
-						const dx = artX + (targetSize - dw) / 2;
-						const dy = artY + (targetSize - dh) / 2;
-						ctx.drawImage(img, dx, dy, dw, dh);
+						drawImageCover(ctx, img, artX, artY, targetSize);
 						ctx.restore();
 					} catch {
 						// ignore
@@ -157,22 +357,23 @@ export async function generateBoardImage(
 				}
 
 				// Fit text within bounds
-				const baseFontSize = cellSize * 0.12;
+				const baseFontSize = cellSide * 0.12;
 				const maxLines = 4;
-				const { lines, fontSize, lineHeight } = fitTextToBox(cell.song.name, innerW * 0.95, textAreaHeight, maxLines, baseFontSize);
+				const { lines, fontSize, lineHeight } = fitTextToBox(ctx, cell.song.name, innerW * 0.95, textAreaHeight, maxLines, baseFontSize, fonts);
 				ctx.save();
 				ctx.beginPath();
 				ctx.rect(innerX, textAreaY, innerW, textAreaHeight);
 				ctx.clip();
-				ctx.font = `${fontSize}px "NotoSansJP", sans-serif`;
-				ctx.lineWidth = Math.max(0.8, fontSize * 0.05);
-				ctx.strokeStyle = '#000000';
-				ctx.fillStyle = '#000000';
+				ctx.font = `${weight.fontWeight} ${fontSize}px ${fonts}`;
+				ctx.lineWidth = Math.max(0.8, fontSize * weight.outline);
+				ctx.strokeStyle = palette.text;
+				ctx.fillStyle = palette.text;
 				const totalHeight = lines.length * lineHeight;
 				let textY = textAreaY + (textAreaHeight - totalHeight) / 2 + lineHeight / 2;
 				for (const line of lines) {
-					ctx.strokeText(line, x + cellSize / 2, textY);
-					ctx.fillText(line, x + cellSize / 2, textY);
+					// Bold text is outlined in the text colour
+					if (weight.outline > 0) ctx.strokeText(line, x + cellSide / 2, textY);
+					ctx.fillText(line, x + cellSide / 2, textY);
 					textY += lineHeight;
 				}
 				ctx.restore();
@@ -180,84 +381,268 @@ export async function generateBoardImage(
 		}
 	}
 
-	// Convert to PNG buffer
-	return canvas.toBuffer('image/png');
+	// Borders, drawn over the cell fills and background art
+	ctx.strokeStyle = palette.border;
+	ctx.lineWidth = theme.borderWidth;
+	ctx.setLineDash(getBorderDash(theme.borderStyle, theme.borderWidth));
+	if (cellRadius > 0) {
+		for (let i = 0; i < gridSize; i++) {
+			for (let j = 0; j < gridSize; j++) {
+				const x = gridLeft + (j * cellSize) + cellInset;
+				const y = gridTop + (i * cellSize) + cellInset;
+				traceRoundedRect(ctx, x, y, cellSide, cellSide, cellRadius);
+				ctx.stroke();
+			}
+		}
+	} else {
+		// Whole grid lines, so the dashes of neighbouring cells line up
+		ctx.lineCap = theme.borderStyle === 'solid' ? 'square' : 'butt';
+		ctx.beginPath();
+		for (let i = 0; i <= gridSize; i++) {
+			const offset = i * cellSize;
+			ctx.moveTo(gridLeft, gridTop + offset);
+			ctx.lineTo(gridLeft + gridSide, gridTop + offset);
+			ctx.moveTo(gridLeft + offset, gridTop);
+			ctx.lineTo(gridLeft + offset, gridTop + gridSide);
+		}
+		ctx.stroke();
+		ctx.lineCap = 'butt';
+	}
+	ctx.setLineDash([]);
+
+	// Event header: logo on the left, title centred in the remaining width
+	if (headerHeight > 0) {
+		const headerTop = gridTop - brandingGap - headerHeight;
+		const title = branding?.title?.trim();
+		let titleLeft = gridLeft;
+
+		if (branding?.logo) {
+			try {
+				const logo = await loadCachedImage(branding.logo);
+				const scale = Math.min(headerHeight / logo.height, (gridSide * 0.3) / logo.width);
+				const dw = logo.width * scale;
+				const dh = logo.height * scale;
+				const logoX = title ? gridLeft : gridLeft + (gridSide - dw) / 2;
+				ctx.drawImage(logo, logoX, headerTop + (headerHeight - dh) / 2, dw, dh);
+				if (title) titleLeft = gridLeft + dw + brandingGap;
+			} catch {
+				// Skip a logo that can't be decoded
+			}
+		}
+
+		if (title) {
+			const titleWidth = gridLeft + gridSide - titleLeft;
+			// Measured at regular weight, so leave room for the wider bold glyphs
+			const { lines, fontSize, lineHeight } = fitTextToBox(ctx, title, titleWidth * 0.9, headerHeight, 3, headerHeight * 0.5, fonts);
+			ctx.font = `700 ${fontSize}px ${fonts}`;
+			ctx.fillStyle = palette.text;
+			ctx.textAlign = 'center';
+			ctx.textBaseline = 'middle';
+			let textY = headerTop + (headerHeight - lines.length * lineHeight) / 2 + lineHeight / 2;
+			for (const line of lines) {
+				ctx.fillText(line, titleLeft + titleWidth / 2, textY);
+				textY += lineHeight;
+			}
+		}
+	}
+
+	// Footer row: footer text on the left, serial and board ID on the right, then the QR code
+	if (footerHeight > 0) {
+		const footerTop = gridTop + gridSide + brandingGap;
+		const centerY = footerTop + footerHeight / 2;
+		const fontSize = footerTextSize;
+		let footerRight = gridLeft + gridSide;
+
+		if (qrUrl) {
+			drawQrCode(ctx, qrUrl, footerRight - qrSide, footerTop + (footerHeight - qrSide) / 2, qrSide);
+			footerRight -= qrSide + brandingGap;
+		}
+
+		ctx.fillStyle = palette.text;
+		ctx.textBaseline = 'middle';
+
+		if (branding?.serial) {
+			const serial = `${formatBoardSerial(boardNumber)} · ${board.id}`;
+			ctx.font = `700 ${fontSize}px ${fonts}`;
+			ctx.textAlign = 'right';
+			ctx.fillText(serial, footerRight, centerY);
+			footerRight -= ctx.measureText(serial).width + brandingGap;
+		}
+
+		const footer = branding?.footer?.trim();
+		if (footer && footerRight > gridLeft) {
+			const { lines, fontSize: footerFontSize, lineHeight } = fitTextToBox(ctx, footer, footerRight - gridLeft, footerHeight, qrUrl ? 3 : 2, fontSize, fonts);
+			ctx.font = `${footerFontSize}px ${fonts}`;
+			ctx.textAlign = 'left';
+			let textY = centerY - ((lines.length - 1) * lineHeight) / 2;
+			for (const line of lines) {
+				ctx.fillText(line, gridLeft, textY);
+				textY += lineHeight;
+			}
+		}
+	}
+
+	// Convert to PNG buffer (encoded off the main thread, while the next board is drawn)
+	return canvas.encode('png');
 }
 
 /**
  * Generate all bingo boards as a ZIP of PNG images
+ * A few boards are in progress at once, up to the concurrency limit
  */
 export async function generateBingoBoardsImagesZip(
 	boards: BingoBoard[],
-	showFreeSpace: boolean = true
+	options: Omit<CanvasExportOptions, 'layout'> = {}
 ): Promise<Buffer> {
+	const { branding, getBoardUrl, theme, downscaleArt, concurrency } = options;
 	const zip = new JSZip();
 
-	// Generate individual images for each board
-	for (let i = 0; i < boards.length; i++) {
-		const board = boards[i];
-		const imageBuffer = await generateBoardImage(board, i + 1, showFreeSpace);
-
-		// Add image to zip with numbered filename
-		zip.file(`bingo_board_${String(i + 1).padStart(3, '0')}.png`, imageBuffer);
-	}
+	// Generate individual images for each board, adding each to the zip with a numbered filename
+	await forEachWithConcurrency(
+		boards,
+		getRenderConcurrency(concurrency),
+		(board, i) =>
+			generateBoardImage(board, i + 1, {
+				branding,
+				qrUrl: getBoardUrl?.(board, i + 1),
+				theme,
+				downscaleArt
+			}),
+		(imageBuffer, i) => {
+			zip.file(`bingo_board_${String(i + 1).padStart(3, '0')}.png`, imageBuffer);
+		}
+	);
 
 	// Generate the zip file
 	return zip.generateAsync({ type: 'nodebuffer' });
 }
 
+/**
+ * Draw crop marks in the page margin in line with every board edge
+ * Marks stop short of the boards so they don't show on the cut cards
+ */
+export function drawCropMarks(page: PDFPage, slots: BoardSlot[], pageHeight: number, pageWidth: number) {
+	const color = rgb(0, 0, 0);
+	const thickness = 0.5;
+	const top = Math.min(...slots.map((slot) => slot.y));
+	const bottom = Math.max(...slots.map((slot) => slot.y + slot.height));
+	const left = Math.min(...slots.map((slot) => slot.x));
+	const right = Math.max(...slots.map((slot) => slot.x + slot.width));
+
+	const xs = new Set(slots.flatMap((slot) => [slot.x, slot.x + slot.width]));
+	const ys = new Set(slots.flatMap((slot) => [slot.y, slot.y + slot.height]));
+
+	// Vertical marks above and below the boards (pdf-lib measures y from the bottom)
+	for (const x of xs) {
+		const aboveEnd = top - CROP_MARK_OFFSET;
+		if (aboveEnd > 0) {
+			const start = Math.max(0, aboveEnd - CROP_MARK_LENGTH);
+			page.drawLine({
+				start: { x, y: pageHeight - start },
+				end: { x, y: pageHeight - aboveEnd },
+				thickness,
+				color
+			});
+		}
+		const belowStart = bottom + CROP_MARK_OFFSET;
+		if (belowStart < pageHeight) {
+			const end = Math.min(pageHeight, belowStart + CROP_MARK_LENGTH);
+			page.drawLine({
+				start: { x, y: pageHeight - belowStart },
+				end: { x, y: pageHeight - end },
+				thickness,
+				color
+			});
+		}
+	}
+
+	// Horizontal marks left and right of the boards
+	for (const y of ys) {
+		const leftEnd = left - CROP_MARK_OFFSET;
+		if (leftEnd > 0) {
+			page.drawLine({
+				start: { x: Math.max(0, leftEnd - CROP_MARK_LENGTH), y: pageHeight - y },
+				end: { x: leftEnd, y: pageHeight - y },
+				thickness,
+				color
+			});
+		}
+		const rightStart = right + CROP_MARK_OFFSET;
+		if (rightStart < pageWidth) {
+			page.drawLine({
+				start: { x: rightStart, y: pageHeight - y },
+				end: { x: Math.min(pageWidth, rightStart + CROP_MARK_LENGTH), y: pageHeight - y },
+				thickness,
+				color
+			});
+		}
+	}
+}
+
 /**
  * Generate all bingo boards as a single PDF with proper Unicode support
  * Uses Canvas for rendering, then embeds images into PDF
+ * A few boards are in progress at once, up to the concurrency limit, and each is embedded as
+ * soon as it's ready
+ * @param options Page layout (size, orientation, boards per page, margins, crop marks),
+ * card branding, QR code links, card theme and rendering options
  */
 export async function generateBingoBoardsCanvasPDF(
 	boards: BingoBoard[],
-	showFreeSpace: boolean = true
+	options: CanvasExportOptions = {}
 ): Promise<Buffer> {
+	const {
+		layout = DEFAULT_PRINT_LAYOUT,
+		branding,
+		getBoardUrl,
+		theme,
+		downscaleArt,
+		concurrency
+	} = options;
+
 	// Create a new PDF document
 	const pdfDoc = await PDFDocument.create();
 
-	// A4 landscape size in points (841.89 x 595.28)
-	const PAGE_WIDTH = 841.89;
-	const PAGE_HEIGHT = 595.28;
-	const MARGIN = 12; // page margin (reduced to enlarge boards)
-	const GUTTER = 12; // space between the two boards (slightly reduced)
-	const AVAILABLE_WIDTH = PAGE_WIDTH - MARGIN * 2 - GUTTER;
-	const HALF_WIDTH = AVAILABLE_WIDTH / 2;
-	const AVAILABLE_HEIGHT = PAGE_HEIGHT - MARGIN * 2;
-
-	// Process two boards per page
-	for (let i = 0; i < boards.length; i += 2) {
-		const page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
-
-		// Left slot (board i)
-		const leftBoard = boards[i];
-		const leftBuffer = await generateBoardImage(leftBoard, i + 1, showFreeSpace);
-		const leftImage = await pdfDoc.embedPng(leftBuffer);
-		const leftDims = leftImage.scale(1);
-		// Fit preserving aspect ratio
-		const leftScale = Math.min(HALF_WIDTH / leftDims.width, AVAILABLE_HEIGHT / leftDims.height);
-		const leftDrawW = leftDims.width * leftScale;
-		const leftDrawH = leftDims.height * leftScale;
-		const leftX = MARGIN + (HALF_WIDTH - leftDrawW) / 2;
-		const leftY = MARGIN + (AVAILABLE_HEIGHT - leftDrawH) / 2;
-		page.drawImage(leftImage, { x: leftX, y: leftY, width: leftDrawW, height: leftDrawH });
-
-		// Right slot (board i+1) if exists
-		if (i + 1 < boards.length) {
-			const rightBoard = boards[i + 1];
-			const rightBuffer = await generateBoardImage(rightBoard, i + 2, showFreeSpace);
-			const rightImage = await pdfDoc.embedPng(rightBuffer);
-			const rightDims = rightImage.scale(1);
-			const rightScale = Math.min(HALF_WIDTH / rightDims.width, AVAILABLE_HEIGHT / rightDims.height);
-			const rightDrawW = rightDims.width * rightScale;
-			const rightDrawH = rightDims.height * rightScale;
-			const rightSlotX = MARGIN + HALF_WIDTH + GUTTER;
-			const rightX = rightSlotX + (HALF_WIDTH - rightDrawW) / 2;
-			const rightY = MARGIN + (AVAILABLE_HEIGHT - rightDrawH) / 2;
-			page.drawImage(rightImage, { x: rightX, y: rightY, width: rightDrawW, height: rightDrawH });
+	const { width: pageWidth, height: pageHeight } = getPageDimensions(layout);
+	const slots = getBoardSlots(layout);
+
+	// Every slot has the same size, so every board renders to the same image size
+	const imageSize = {
+		width: (slots[0].width / 72) * RENDER_DPI,
+		height: (slots[0].height / 72) * RENDER_DPI
+	};
+
+	let page = pdfDoc.addPage([pageWidth, pageHeight]);
+	await forEachWithConcurrency(
+		boards,
+		getRenderConcurrency(concurrency),
+		(board, i) =>
+			generateBoardImage(board, i + 1, {
+				size: imageSize,
+				branding,
+				qrUrl: getBoardUrl?.(board, i + 1),
+				theme,
+				downscaleArt
+			}),
+		async (buffer, i) => {
+			const s = i % slots.length;
+			if (s === 0) {
+				if (i > 0) page = pdfDoc.addPage([pageWidth, pageHeight]);
+				if (layout.cropMarks) {
+					drawCropMarks(page, slots, pageHeight, pageWidth);
+				}
+			}
+
+			const slot = slots[s];
+			const image = await pdfDoc.embedPng(buffer);
+			page.drawImage(image, {
+				x: slot.x,
+				y: pageHeight - slot.y - slot.height,
+				width: slot.width,
+				height: slot.height
+			});
 		}
-	}
+	);
 
 	// Serialize the PDF to bytes
 	const pdfBytes = await pdfDoc.save();
@@ -0,0 +1,73 @@
+/**
+ * Geometry of a printed card, shared by the canvas and vector renderers
+ * Sizes are relative to the card's shorter side, so the same layout works in pixels and points
+ */
+
+import { hasBrandingFooter, hasBrandingHeader, type CardBranding } from '$lib/utils/card-branding';
+
+// Space around the grid (60px on an A4 image at 150 DPI)
+const GRID_MARGIN_RATIO = 60 / 1240;
+
+// Branding header and footer heights
+const HEADER_RATIO = 0.1;
+const FOOTER_RATIO = 0.05;
+
+// QR code side
+const QR_RATIO = 0.14;
+
+// White border around a QR code, in modules
+export const QR_QUIET_ZONE = 2;
+
+export interface CardLayout {
+	shortSide: number;
+	/** Space between the grid and the branding header or footer */
+	brandingGap: number;
+	headerHeight: number;
+	/** Height of the footer row, which fits both the footer text and the QR code */
+	footerHeight: number;
+	footerFontSize: number;
+	qrSide: number;
+	gridLeft: number;
+	gridTop: number;
+	gridSide: number;
+	cellSize: number;
+}
+
+/**
+ * Lay out a card: the square grid is centred between the branding header and footer
+ * @param gridSize Number of cells per row
+ * @param options Branding to leave room for, and whether the footer row holds a QR code
+ */
+export function getCardLayout(
+	width: number,
+	height: number,
+	gridSize: number,
+	options: { branding?: CardBranding; qrCode?: boolean } = {}
+): CardLayout {
+	const shortSide = Math.min(width, height);
+	const gridMargin = shortSide * GRID_MARGIN_RATIO;
+	const brandingGap = gridMargin / 2;
+	const headerHeight = hasBrandingHeader(options.branding) ? shortSide * HEADER_RATIO : 0;
+	const footerTextHeight = hasBrandingFooter(options.branding) ? shortSide * FOOTER_RATIO : 0;
+	const qrSide = options.qrCode ? shortSide * QR_RATIO : 0;
+	const footerHeight = Math.max(footerTextHeight, qrSide);
+	const headerSpace = headerHeight > 0 ? headerHeight + brandingGap : 0;
+	const footerSpace = footerHeight > 0 ? footerHeight + brandingGap : 0;
+	const gridSide = Math.min(
+		width - gridMargin * 2,
+		height - gridMargin * 2 - headerSpace - footerSpace
+	);
+
+	return {
+		shortSide,
+		brandingGap,
+		headerHeight,
+		footerHeight,
+		footerFontSize: shortSide * FOOTER_RATIO * 0.6,
+		qrSide,
+		gridLeft: (width - gridSide) / 2,
+		gridTop: (height - headerSpace - gridSide - footerSpace) / 2 + headerSpace,
+		gridSide,
+		cellSize: gridSide / gridSize
+	};
+}
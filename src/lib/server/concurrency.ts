@@ -0,0 +1,49 @@
+/**
+ * Run an async task for every item with at most `limit` tasks in flight
+ * @returns The results in item order
+ */
+export async function mapWithConcurrency<T, R>(
+	items: T[],
+	limit: number,
+	task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+	const results: R[] = new Array(items.length);
+	let next = 0;
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await task(items[index], index);
+		}
+	};
+	await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+	return results;
+}
+
+/**
+ * Run an async task for every item with at most `limit` tasks in flight, handing each result
+ * to `consume` in item order as soon as it and the ones before it are done
+ * Unlike mapWithConcurrency, only the results in flight are held at any time
+ */
+export async function forEachWithConcurrency<T, R>(
+	items: T[],
+	limit: number,
+	task: (item: T, index: number) => Promise<R>,
+	consume: (result: R, index: number) => void | Promise<void>
+): Promise<void> {
+	const inFlight: Promise<R>[] = [];
+	let next = 0;
+	const start = () => {
+		const index = next++;
+		const promise = task(items[index], index);
+		// Failures surface when their turn comes; don't let them go unhandled before that
+		promise.catch(() => {});
+		inFlight.push(promise);
+	};
+
+	while (next < items.length && inFlight.length < Math.max(1, limit)) start();
+	for (let index = 0; index < items.length; index++) {
+		const result = await inFlight.shift()!;
+		if (next < items.length) start();
+		await consume(result, index);
+	}
+}
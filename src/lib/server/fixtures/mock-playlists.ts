@@ -0,0 +1,159 @@
+/**
+ * Song pools served by the mock music-source provider
+ * Kept small and hand-written so the whole app can run without network access
+ */
+
+import type { PlaylistData, PlaylistSongInfo } from '$lib/interfaces/spotify.interface';
+
+// [title, artists separated by "; ", album, release date, duration]
+type FixtureSong = [
+	name: string,
+	artists: string,
+	album: string,
+	releaseDate: string,
+	duration: string
+];
+
+function createFixture(
+	id: string,
+	name: string,
+	description: string,
+	songs: FixtureSong[]
+): PlaylistData {
+	const songInfo = songs.map(([songName, artists, album, releaseDate, duration]) => {
+		const artistNames = artists.split('; ');
+		const [minutes, seconds] = duration.split(':').map(Number);
+		const songId = `mock-${songName.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+		return {
+			id: songId,
+			name: songName,
+			artist: artistNames[0],
+			artists: artistNames,
+			album,
+			releaseDate,
+			uri: `mock:track:${songId}`,
+			link: '',
+			image: null,
+			durationMs: (minutes * 60 + seconds) * 1000
+		} satisfies PlaylistSongInfo;
+	});
+
+	return {
+		id,
+		name,
+		description,
+		ownerName: 'Mock Provider',
+		totalTracks: songInfo.length,
+		playlistLink: `mock:${id}`,
+		songs: songInfo
+	};
+}
+
+export const MOCK_PLAYLISTS: PlaylistData[] = [
+	createFixture('party', 'Party Classics', 'Sing-along hits across the decades', [
+		['Bohemian Rhapsody', 'Queen', 'A Night at the Opera', '1975-10-31', '5:55'],
+		['Dancing Queen', 'ABBA', 'Arrival', '1976-10-11', '3:50'],
+		[
+			'September',
+			'Earth, Wind & Fire',
+			'The Best of Earth, Wind & Fire, Vol. 1',
+			'1978-11-23',
+			'3:35'
+		],
+		['I Wanna Dance with Somebody', 'Whitney Houston', 'Whitney', '1987-06-02', '4:51'],
+		['Billie Jean', 'Michael Jackson', 'Thriller', '1982-11-30', '4:54'],
+		["Livin' on a Prayer", 'Bon Jovi', 'Slippery When Wet', '1986-08-18', '4:09'],
+		[
+			'Sweet Caroline',
+			'Neil Diamond',
+			"Brother Love's Travelling Salvation Show",
+			'1969-04',
+			'3:21'
+		],
+		["Don't Stop Me Now", 'Queen', 'Jazz', '1978-11-10', '3:29'],
+		['Mr. Brightside', 'The Killers', 'Hot Fuss', '2004-06-07', '3:42'],
+		['Hey Ya!', 'Outkast', 'Speakerboxxx/The Love Below', '2003-09-23', '3:55'],
+		['Uptown Funk', 'Mark Ronson; Bruno Mars', 'Uptown Special', '2015-01-12', '4:30'],
+		['Shake It Off', 'Taylor Swift', '1989', '2014-10-27', '3:39'],
+		['Wannabe', 'Spice Girls', 'Spice', '1996-11-04', '2:53'],
+		['Take On Me', 'a-ha', 'Hunting High and Low', '1985-06-01', '3:45'],
+		['Africa', 'TOTO', 'Toto IV', '1982-04-08', '4:55'],
+		["Don't Stop Believin'", 'Journey', 'Escape', '1981-07-31', '4:11'],
+		['I Will Survive', 'Gloria Gaynor', 'Love Tracks', '1978-11', '3:18'],
+		['Le Freak', 'CHIC', "C'est Chic", '1978-08-11', '5:29'],
+		['Crazy in Love', 'Beyoncé; JAY-Z', 'Dangerously in Love', '2003-06-20', '3:56'],
+		['Rolling in the Deep', 'Adele', '21', '2011-01-24', '3:48'],
+		['Get Lucky', 'Daft Punk; Pharrell Williams', 'Random Access Memories', '2013-05-17', '6:09'],
+		['Happy', 'Pharrell Williams', 'G I R L', '2014-03-03', '3:53'],
+		['Valerie', 'Mark Ronson; Amy Winehouse', 'Version', '2007-04-16', '3:39'],
+		['Single Ladies', 'Beyoncé', 'I Am... Sasha Fierce', '2008-11-14', '3:13'],
+		['Toxic', 'Britney Spears', 'In the Zone', '2003-11-12', '3:18'],
+		["Hips Don't Lie", 'Shakira; Wyclef Jean', 'Oral Fixation Vol. 2', '2005-11-28', '3:38'],
+		['Yeah!', 'Usher; Lil Jon; Ludacris', 'Confessions', '2004-03-23', '4:10'],
+		['Murder on the Dancefloor', 'Sophie Ellis-Bextor', 'Read My Lips', '2001-11-26', '3:50'],
+		["Can't Stop the Feeling!", 'Justin Timberlake', 'Trolls', '2016-09-23', '3:56'],
+		['Levitating', 'Dua Lipa', 'Future Nostalgia', '2020-03-27', '3:23'],
+		['Blinding Lights', 'The Weeknd', 'After Hours', '2020-03-20', '3:20'],
+		['Bad Romance', 'Lady Gaga', 'The Fame Monster', '2009-11-18', '4:54'],
+		['Dancing On My Own', 'Robyn', 'Body Talk Pt. 1', '2010-06-14', '4:48'],
+		['Waterloo', 'ABBA', 'Waterloo', '1974-03-04', '2:42'],
+		['Girls Just Want to Have Fun', 'Cyndi Lauper', "She's So Unusual", '1983-10-14', '3:58'],
+		['Superstition', 'Stevie Wonder', 'Talking Book', '1972-10-27', '4:26']
+	]),
+	createFixture('eighties', '80s Night', 'Synths, big hair and bigger choruses', [
+		['Take On Me', 'a-ha', 'Hunting High and Low', '1985-06-01', '3:45'],
+		['Billie Jean', 'Michael Jackson', 'Thriller', '1982-11-30', '4:54'],
+		['Africa', 'TOTO', 'Toto IV', '1982-04-08', '4:55'],
+		["Don't Stop Believin'", 'Journey', 'Escape', '1981-07-31', '4:11'],
+		['Girls Just Want to Have Fun', 'Cyndi Lauper', "She's So Unusual", '1983-10-14', '3:58'],
+		[
+			'Sweet Dreams (Are Made of This)',
+			'Eurythmics',
+			'Sweet Dreams (Are Made of This)',
+			'1983-01-04',
+			'3:36'
+		],
+		[
+			"Don't You (Forget About Me)",
+			'Simple Minds',
+			"Don't You (Forget About Me)",
+			'1985-02-20',
+			'4:23'
+		],
+		["Just Can't Get Enough", 'Depeche Mode', 'Speak & Spell', '1981-10-05', '3:42'],
+		['Tainted Love', 'Soft Cell', 'Non-Stop Erotic Cabaret', '1981-11-27', '2:33'],
+		[
+			'Everybody Wants to Rule the World',
+			'Tears For Fears',
+			'Songs From The Big Chair',
+			'1985-02-25',
+			'4:11'
+		],
+		['Under Pressure', 'Queen; David Bowie', 'Hot Space', '1982-05-21', '4:08'],
+		["Let's Dance", 'David Bowie', "Let's Dance", '1983-04-14', '7:38'],
+		['Like a Prayer', 'Madonna', 'Like a Prayer', '1989-03-21', '5:39'],
+		['Into the Groove', 'Madonna', 'Like a Virgin', '1985-07-23', '4:45'],
+		['Never Gonna Give You Up', 'Rick Astley', 'Whenever You Need Somebody', '1987-11-12', '3:33'],
+		['Wake Me Up Before You Go-Go', 'Wham!', 'Make It Big', '1984-10-23', '3:51'],
+		["Livin' on a Prayer", 'Bon Jovi', 'Slippery When Wet', '1986-08-18', '4:09'],
+		['Jump', 'Van Halen', '1984', '1984-01-09', '4:01'],
+		['Footloose', 'Kenny Loggins', 'Footloose', '1984-01-01', '3:46'],
+		['Eye of the Tiger', 'Survivor', 'Eye of the Tiger', '1982-05-29', '4:05'],
+		['Karma Chameleon', 'Culture Club', 'Colour by Numbers', '1983-10-10', '4:12'],
+		['West End Girls', 'Pet Shop Boys', 'Please', '1986-03-24', '4:45'],
+		['Blue Monday', 'New Order', 'Power, Corruption & Lies', '1983-03-07', '7:29'],
+		['Rio', 'Duran Duran', 'Rio', '1982-05-10', '5:40'],
+		['Relax', 'Frankie Goes To Hollywood', 'Welcome to the Pleasuredome', '1984-10-29', '3:56'],
+		['I Ran (So Far Away)', 'A Flock Of Seagulls', 'A Flock Of Seagulls', '1982-04-01', '3:59'],
+		['Come On Eileen', 'Dexys Midnight Runners', 'Too-Rye-Ay', '1982-07-16', '4:33'],
+		['Walking on Sunshine', 'Katrina & The Waves', 'Katrina and the Waves', '1985-04', '3:58'],
+		[
+			'Total Eclipse of the Heart',
+			'Bonnie Tyler',
+			'Faster Than the Speed of Night',
+			'1983-04-11',
+			'6:58'
+		],
+		['Kids in America', 'Kim Wilde', 'Kim Wilde', '1981-06-29', '3:23']
+	])
+];
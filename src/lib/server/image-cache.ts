@@ -0,0 +1,124 @@
+/**
+ * Shared cache of decoded images for the canvas renderers
+ * Album covers repeat across the cells of a board set, so each one is downloaded and decoded
+ * once per process instead of once per cell; the cache is bounded by decoded size
+ * Failed loads are remembered for a short while too, so a broken cover fails fast instead of
+ * being downloaded again for every cell
+ */
+
+import { createCanvas, loadImage, type Canvas, type Image } from '@napi-rs/canvas';
+import { env } from '$env/dynamic/private';
+import { loadImageSource } from './image-source';
+
+export type CachedImage = Image | Canvas;
+
+interface ImageCacheEntry {
+	image: CachedImage;
+	/** Decoded size (4 bytes per pixel) */
+	bytes: number;
+}
+
+/** Decoded megabytes kept unless IMAGE_CACHE_MB says otherwise */
+const DEFAULT_CACHE_MB = 128;
+
+// How long a failed load is remembered, and how many failures are kept
+const FAILURE_TTL_MS = 60 * 1000;
+const MAX_FAILURES = 500;
+
+// Least recently used first
+const entries = new Map<string, ImageCacheEntry>();
+const pending = new Map<string, Promise<CachedImage>>();
+// Oldest first
+const failures = new Map<string, { error: unknown; expires: number }>();
+let cachedBytes = 0;
+
+function getMaxBytes(): number {
+	const megabytes = Number(env.IMAGE_CACHE_MB);
+	return (
+		(Number.isFinite(megabytes) && megabytes >= 0 ? megabytes : DEFAULT_CACHE_MB) * 1024 * 1024
+	);
+}
+
+// Add an image, dropping the least recently used ones once the cache is over its size
+function storeImage(key: string, image: CachedImage) {
+	const bytes = image.width * image.height * 4;
+	const maxBytes = getMaxBytes();
+	if (bytes > maxBytes) return;
+
+	entries.set(key, { image, bytes });
+	cachedBytes += bytes;
+	for (const [oldestKey, oldest] of entries) {
+		if (cachedBytes <= maxBytes) break;
+		entries.delete(oldestKey);
+		cachedBytes -= oldest.bytes;
+	}
+}
+
+// Remember a failed load, dropping the oldest failures once there are too many
+function storeFailure(src: string, error: unknown) {
+	failures.delete(src);
+	failures.set(src, { error, expires: Date.now() + FAILURE_TTL_MS });
+	for (const oldestSrc of failures.keys()) {
+		if (failures.size <= MAX_FAILURES) break;
+		failures.delete(oldestSrc);
+	}
+}
+
+// Scale an image down so its longer side is at most maxSide pixels
+function downscale(image: Image, maxSide: number): CachedImage {
+	const scale = maxSide / Math.max(image.width, image.height);
+	if (scale >= 1) return image;
+	const canvas = createCanvas(
+		Math.max(1, Math.round(image.width * scale)),
+		Math.max(1, Math.round(image.height * scale))
+	);
+	const ctx = canvas.getContext('2d');
+	ctx.imageSmoothingQuality = 'high';
+	ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+	return canvas;
+}
+
+/**
+ * Load an image (an uploaded data URL or Spotify album art) through the shared cache
+ * Concurrent loads of the same image share one download, and a failed load fails again
+ * without a retry for a minute
+ * @param maxSide Downscale the image so its longer side is at most this many pixels
+ * @throws Error if the source isn't allowed, or the image can't be loaded or decoded
+ */
+export async function loadCachedImage(src: string, maxSide?: number): Promise<CachedImage> {
+	const key = maxSide ? `${Math.ceil(maxSide)}:${src}` : src;
+
+	const entry = entries.get(key);
+	if (entry) {
+		// Re-insert so the map stays in least recently used order
+		entries.delete(key);
+		entries.set(key, entry);
+		return entry.image;
+	}
+
+	const failure = failures.get(src);
+	if (failure) {
+		if (failure.expires > Date.now()) throw failure.error;
+		failures.delete(src);
+	}
+
+	let promise = pending.get(key);
+	if (!promise) {
+		promise = (async () => {
+			let loaded: Image;
+			try {
+				loaded = await loadImage(await loadImageSource(src));
+			} catch (error) {
+				storeFailure(src, error);
+				throw error;
+			}
+			const image = maxSide ? downscale(loaded, Math.ceil(maxSide)) : loaded;
+			storeImage(key, image);
+			return image;
+		})().finally(() => {
+			pending.delete(key);
+		});
+		pending.set(key, promise);
+	}
+	return promise;
+}
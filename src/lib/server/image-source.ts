@@ -0,0 +1,105 @@
+import { isAlbumArtUrl, isImageDataUrl } from '$lib/utils/image-source';
+
+// Largest image decoded, in pixels (64 MB once decoded)
+const MAX_IMAGE_PIXELS = 16 * 1024 * 1024;
+
+interface ImageSize {
+	width: number;
+	height: number;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Get the size of a whole PNG: the signature, an IHDR chunk first, and chunks that fit in the
+// file up to the IEND chunk; null if the bytes are anything else
+function getPngSize(bytes: Buffer): ImageSize | null {
+	if (bytes.length < PNG_SIGNATURE.length || !bytes.subarray(0, 8).equals(PNG_SIGNATURE)) {
+		return null;
+	}
+	let size: ImageSize | null = null;
+	let pos = PNG_SIGNATURE.length;
+	while (pos + 8 <= bytes.length) {
+		const length = bytes.readUInt32BE(pos);
+		const type = bytes.toString('latin1', pos + 4, pos + 8);
+		const end = pos + 12 + length;
+		if (end > bytes.length) return null;
+		if (!size) {
+			if (type !== 'IHDR' || length !== 13) return null;
+			size = { width: bytes.readUInt32BE(pos + 8), height: bytes.readUInt32BE(pos + 12) };
+		}
+		if (type === 'IEND') return size;
+		pos = end;
+	}
+	return null;
+}
+
+// Get the size of a whole JPEG: segments that fit in the file, a frame header before the image
+// data, and the end of image marker last; null if the bytes are anything else
+function getJpegSize(bytes: Buffer): ImageSize | null {
+	if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+	let size: ImageSize | null = null;
+	let pos = 2;
+	while (pos + 4 <= bytes.length) {
+		if (bytes[pos] !== 0xff) return null;
+		const marker = bytes[pos + 1];
+		if (marker === 0xff) {
+			// Fill byte before a marker
+			pos++;
+			continue;
+		}
+		// Restart markers and TEM stand alone
+		if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+			pos += 2;
+			continue;
+		}
+		const length = bytes.readUInt16BE(pos + 2);
+		const end = pos + 2 + length;
+		if (length < 2 || end > bytes.length) return null;
+		// SOF0-SOF15, apart from DHT, JPG and DAC
+		if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+			if (length < 8) return null;
+			size = { width: bytes.readUInt16BE(pos + 7), height: bytes.readUInt16BE(pos + 5) };
+		}
+		if (marker === 0xda) {
+			const endsWithEoi = bytes[bytes.length - 2] === 0xff && bytes[bytes.length - 1] === 0xd9;
+			return bytes.length >= end + 2 && endsWithEoi ? size : null;
+		}
+		pos = end;
+	}
+	return null;
+}
+
+// Only whole PNG and JPEG files reach the decoder, and since a small file can declare a huge
+// image, their declared size is bounded too
+function assertImageBytes(bytes: Buffer): Buffer {
+	const size = getPngSize(bytes) ?? getJpegSize(bytes);
+	if (!size || size.width === 0 || size.height === 0) {
+		throw new Error('Images must be whole PNG or JPEG files');
+	}
+	if (size.width * size.height > MAX_IMAGE_PIXELS) {
+		throw new Error('The image has too many pixels (16 megapixels at most)');
+	}
+	return bytes;
+}
+
+/**
+ * Read the bytes of an image named in a request
+ * PNG and JPEG data URLs are decoded and Spotify album art is fetched; any other string
+ * (a local path, another host, another scheme) is refused, and so are bytes that aren't a PNG
+ * or JPEG
+ * @throws Error if the source isn't allowed, the download fails or the bytes aren't an image
+ */
+export async function loadImageSource(src: string): Promise<Buffer> {
+	if (isImageDataUrl(src)) {
+		return assertImageBytes(Buffer.from(src.slice(src.indexOf(',') + 1), 'base64'));
+	}
+	if (!isAlbumArtUrl(src)) {
+		throw new Error('Images must be PNG or JPEG uploads or Spotify album art');
+	}
+	// Redirects could lead anywhere, so they are refused too
+	const response = await fetch(src, { redirect: 'error' });
+	if (!response.ok) {
+		throw new Error(`Failed to load image (${response.status})`);
+	}
+	return assertImageBytes(Buffer.from(await response.arrayBuffer()));
+}
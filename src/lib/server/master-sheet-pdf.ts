@@ -0,0 +1,190 @@
+/**
+ * Host master sheet PDF: a checklist of every song in play with the boards it appears on
+ */
+
+import { PDFDocument, rgb, type PDFPage } from 'pdf-lib';
+import { formatBoardSerial } from '$lib/utils/bingo';
+import type { MasterSheetEntry, MasterSheetOrder } from '$lib/utils/master-sheet';
+import { DEFAULT_PRINT_LAYOUT, getPageDimensions, type PageSize } from '$lib/utils/print-layout';
+import { BLACK, createDocumentRenderer, type DocumentRenderer } from './pdf-document';
+import { wrapText } from './text-fit';
+
+// Page margin, in points
+const MARGIN = 36;
+
+const TITLE_FONT_SIZE = 16;
+const FONT_SIZE = 9;
+const LINE_HEIGHT = 11;
+const ROW_PADDING = 3;
+const CHECKBOX_SIZE = 8;
+
+const RULE_COLOR = rgb(0.7, 0.7, 0.7);
+
+interface Column {
+	label: string;
+	/** Share of the width left after the fixed columns */
+	share?: number;
+	/** Fixed width in points */
+	width?: number;
+}
+
+const COLUMNS: Column[] = [
+	{ label: '', width: 18 },
+	{ label: '#', width: 26 },
+	{ label: 'Song', share: 0.3 },
+	{ label: 'Artist', share: 0.2 },
+	{ label: 'Boards', share: 0.5 }
+];
+
+export interface MasterSheetPDFOptions {
+	order: MasterSheetOrder;
+	/** Page size; the sheet is always portrait (default: A4) */
+	pageSize?: PageSize;
+	/** Event title printed above the list */
+	title?: string;
+}
+
+/**
+ * Get the left edge and width of every column
+ */
+function getColumnBounds(contentWidth: number): { x: number; width: number }[] {
+	const fixed = COLUMNS.reduce((sum, column) => sum + (column.width ?? 0), 0);
+	let x = MARGIN;
+	return COLUMNS.map((column) => {
+		const width = column.width ?? (contentWidth - fixed) * (column.share ?? 0);
+		const bounds = { x, width };
+		x += width;
+		return bounds;
+	});
+}
+
+/**
+ * Draw the column labels with a rule underneath
+ * @returns The y coordinate (from the top) below the header
+ */
+async function drawColumnHeader(
+	page: PDFPage,
+	renderer: DocumentRenderer,
+	columns: { x: number; width: number }[],
+	top: number
+): Promise<number> {
+	const pageHeight = page.getHeight();
+	const centerY = pageHeight - top - LINE_HEIGHT / 2;
+	for (const [index, column] of COLUMNS.entries()) {
+		if (column.label) {
+			const x = columns[index].x + ROW_PADDING;
+			await renderer.drawLine(page, column.label, x, centerY, FONT_SIZE, 'left');
+		}
+	}
+	const bottom = top + LINE_HEIGHT + ROW_PADDING;
+	page.drawLine({
+		start: { x: MARGIN, y: pageHeight - bottom },
+		end: { x: page.getWidth() - MARGIN, y: pageHeight - bottom },
+		thickness: 0.75,
+		color: BLACK
+	});
+	return bottom;
+}
+
+/**
+ * Generate the host master sheet as a PDF
+ * Rows are numbered in list order (the call number in call order), with an empty checkbox
+ * to tick when the song is played
+ * @param boardCount Number of boards in the set, for the summary line
+ * @throws Error if the Noto Sans JP font file is missing
+ */
+export async function generateMasterSheetPDF(
+	entries: MasterSheetEntry[],
+	boardCount: number,
+	options: MasterSheetPDFOptions
+): Promise<Buffer> {
+	const pdfDoc = await PDFDocument.create();
+	const renderer = await createDocumentRenderer(pdfDoc);
+
+	const { width: pageWidth, height: pageHeight } = getPageDimensions({
+		...DEFAULT_PRINT_LAYOUT,
+		pageSize: options.pageSize ?? DEFAULT_PRINT_LAYOUT.pageSize,
+		orientation: 'portrait'
+	});
+	const contentWidth = pageWidth - MARGIN * 2;
+	const columns = getColumnBounds(contentWidth);
+	const cellWidth = (index: number) => columns[index].width - ROW_PADDING * 2;
+
+	let page = pdfDoc.addPage([pageWidth, pageHeight]);
+	let y = MARGIN;
+
+	// Title and summary on the first page
+	const title = options.title?.trim() ? `${options.title.trim()} · Master sheet` : 'Master sheet';
+	for (const line of wrapText(title, TITLE_FONT_SIZE, contentWidth, renderer.measure)) {
+		const centerY = pageHeight - y - (TITLE_FONT_SIZE * 1.2) / 2;
+		await renderer.drawLine(page, line, MARGIN, centerY, TITLE_FONT_SIZE, 'left');
+		y += TITLE_FONT_SIZE * 1.2;
+	}
+	const orderLabel = options.order === 'call' ? 'in call order' : 'in alphabetical order';
+	const summary =
+		`${entries.length} song${entries.length !== 1 ? 's' : ''} ${orderLabel} · ` +
+		`${boardCount} board${boardCount !== 1 ? 's' : ''}`;
+	await renderer.drawLine(page, summary, MARGIN, pageHeight - y - LINE_HEIGHT, FONT_SIZE, 'left');
+	y += LINE_HEIGHT * 2 + ROW_PADDING;
+
+	y = await drawColumnHeader(page, renderer, columns, y);
+
+	for (const [index, { song, serials }] of entries.entries()) {
+		const cells = [
+			[String(index + 1)],
+			wrapText(song.name, FONT_SIZE, cellWidth(2), renderer.measure),
+			wrapText(song.artists.join(', ') || song.artist, FONT_SIZE, cellWidth(3), renderer.measure),
+			wrapText(serials.map(formatBoardSerial).join(', '), FONT_SIZE, cellWidth(4), renderer.measure)
+		];
+		const rowHeight =
+			Math.max(...cells.map((lines) => lines.length)) * LINE_HEIGHT + ROW_PADDING * 2;
+
+		// Start a new page (with the column labels) when the row doesn't fit
+		if (y + rowHeight > pageHeight - MARGIN) {
+			page = pdfDoc.addPage([pageWidth, pageHeight]);
+			y = await drawColumnHeader(page, renderer, columns, MARGIN);
+		}
+
+		const firstLineCenter = pageHeight - y - ROW_PADDING - LINE_HEIGHT / 2;
+		page.drawRectangle({
+			x: columns[0].x + ROW_PADDING,
+			y: firstLineCenter - CHECKBOX_SIZE / 2,
+			width: CHECKBOX_SIZE,
+			height: CHECKBOX_SIZE,
+			borderColor: BLACK,
+			borderWidth: 0.75
+		});
+		for (const [cellIndex, lines] of cells.entries()) {
+			const column = columns[cellIndex + 1];
+			let centerY = firstLineCenter;
+			for (const line of lines) {
+				await renderer.drawLine(page, line, column.x + ROW_PADDING, centerY, FONT_SIZE, 'left');
+				centerY -= LINE_HEIGHT;
+			}
+		}
+
+		y += rowHeight;
+		page.drawLine({
+			start: { x: MARGIN, y: pageHeight - y },
+			end: { x: pageWidth - MARGIN, y: pageHeight - y },
+			thickness: 0.5,
+			color: RULE_COLOR
+		});
+	}
+
+	// Page numbers, once the page count is known
+	const pages = pdfDoc.getPages();
+	for (const [index, numberedPage] of pages.entries()) {
+		await renderer.drawLine(
+			numberedPage,
+			`Page ${index + 1} of ${pages.length}`,
+			pageWidth - MARGIN,
+			MARGIN / 2,
+			FONT_SIZE,
+			'right'
+		);
+	}
+
+	const pdfBytes = await pdfDoc.save();
+	return Buffer.from(pdfBytes);
+}
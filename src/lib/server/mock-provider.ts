@@ -0,0 +1,36 @@
+/**
+ * Music-source provider backed by fixture playlists, for development and demos without
+ * Spotify credentials or network access
+ */
+
+import type { MusicSourceProvider } from '$lib/interfaces/music-source.interface';
+import type { PlaylistData } from '$lib/interfaces/spotify.interface';
+import { MOCK_PLAYLISTS } from './fixtures/mock-playlists';
+
+/**
+ * Find the fixture for a source string: "mock:ID" or a bare fixture ID
+ * @throws Error if no fixture has that ID, so real links never quietly get fake songs
+ */
+function findMockPlaylist(source: string): PlaylistData {
+	const id = source.trim().replace(/^mock:/, '');
+	const playlist = MOCK_PLAYLISTS.find((candidate) => candidate.id === id);
+	if (!playlist) {
+		throw new Error(`No mock playlist for "${source}". Use one of: ${getMockSources().join(', ')}`);
+	}
+	return playlist;
+}
+
+export const mockProvider: MusicSourceProvider = {
+	name: 'mock',
+	async resolve(source) {
+		// Copy so callers can't change the fixtures
+		return structuredClone(findMockPlaylist(source));
+	}
+};
+
+/**
+ * Source strings for the available fixture playlists (e.g. "mock:party")
+ */
+export function getMockSources(): string[] {
+	return MOCK_PLAYLISTS.map((playlist) => `mock:${playlist.id}`);
+}
@@ -0,0 +1,56 @@
+/**
+ * Resolve source strings into song pools through the configured music-source provider
+ * MUSIC_PROVIDER selects "spotify" (default) or "mock"; the mock is never picked on its own, so
+ * a deploy with missing Spotify credentials fails loudly instead of serving fixture songs
+ */
+
+import { env } from '$env/dynamic/private';
+import type { MusicSourceProvider } from '$lib/interfaces/music-source.interface';
+import type { PlaylistData, PlaylistSource } from '$lib/interfaces/spotify.interface';
+import { mergePlaylists } from '$lib/utils/playlist';
+import { mockProvider } from './mock-provider';
+import { spotifyProvider } from './spotify';
+
+const PROVIDERS: MusicSourceProvider[] = [spotifyProvider, mockProvider];
+
+/**
+ * Get the provider selected by MUSIC_PROVIDER
+ */
+export function getMusicSourceProvider(): MusicSourceProvider {
+	const name = env.MUSIC_PROVIDER || spotifyProvider.name;
+
+	const provider = PROVIDERS.find((candidate) => candidate.name === name);
+	if (!provider) {
+		throw new Error(
+			`Unknown MUSIC_PROVIDER "${name}". Use one of: ${PROVIDERS.map((p) => p.name).join(', ')}`
+		);
+	}
+	return provider;
+}
+
+/**
+ * Fetch the songs behind a single source string (playlist, album or artist link)
+ */
+export async function resolveSource(source: string): Promise<PlaylistData> {
+	return getMusicSourceProvider().resolve(source);
+}
+
+/**
+ * Fetch several playlists and merge them into one de-duplicated song pool
+ * The merged data lists each source playlist and which sources every song came from
+ */
+export async function getPlaylistsFromSources(sources: PlaylistSource[]): Promise<PlaylistData> {
+	if (sources.length === 0) {
+		throw new Error('At least one playlist link is required');
+	}
+
+	const provider = getMusicSourceProvider();
+	const playlists = await Promise.all(
+		sources.map(async (source) => ({
+			playlist: await provider.resolve(source.link),
+			source
+		}))
+	);
+
+	return mergePlaylists(playlists);
+}
@@ -0,0 +1,285 @@
+/**
+ * Text and image drawing for pdf-lib documents, shared by the vector PDF exports
+ * Text is set in embedded, subsetted Noto fonts, so it stays searchable and CJK titles render
+ */
+
+import fontkit, { type Font } from '@pdf-lib/fontkit';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createCanvas } from '@napi-rs/canvas';
+import {
+	popGraphicsState,
+	pushGraphicsState,
+	rgb,
+	setLineWidth,
+	setStrokingColor,
+	setTextRenderingMode,
+	TextRenderingMode,
+	type PDFDocument,
+	type PDFFont,
+	type PDFImage,
+	type PDFPage,
+	type RGB
+} from 'pdf-lib';
+import { CARD_FONT_FILES, FALLBACK_FONT_FAMILY, type CardFontFamily } from '$lib/utils/card-theme';
+import { loadImageSource } from './image-source';
+import type { MeasureText } from './text-fit';
+
+// Noto fonts looked up in the working directory, in fallback order
+// Noto Sans JP is required; the Korean and Simplified Chinese fonts are used when present
+const FONT_FILES = [
+	'NotoSansJP-VariableFont_wght.ttf',
+	'NotoSansKR-VariableFont_wght.ttf',
+	'NotoSansSC-VariableFont_wght.ttf'
+];
+
+// Resolution multiplier for text that no embedded font covers (e.g. emoji), drawn as an image
+const FALLBACK_TEXT_SCALE = 4;
+
+export const BLACK = rgb(0, 0, 0);
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface TextStyle {
+	/** Text colour as a #rrggbb hex string (default: black) */
+	color?: string;
+	/** Width of an outline in the text colour, in points, to make the text bolder */
+	outline?: number;
+}
+
+/**
+ * Convert a #rrggbb hex colour to a pdf-lib colour
+ */
+export function hexColor(hex: string): RGB {
+	const value = parseInt(hex.slice(1), 16);
+	return rgb(((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255);
+}
+
+interface FontFile {
+	bytes: Uint8Array;
+	font: Font;
+}
+
+// A piece of a line drawn with one font, or as an image when fontIndex is -1
+interface TextRun {
+	text: string;
+	fontIndex: number;
+}
+
+let fontFiles: Promise<FontFile[]> | null = null;
+const themeFontFiles = new Map<CardFontFamily, Promise<FontFile | null>>();
+
+/**
+ * Read the Noto fonts once per process; optional fallback fonts that are missing are skipped
+ * @throws Error if Noto Sans JP is missing
+ */
+function loadFontFiles(): Promise<FontFile[]> {
+	fontFiles ??= (async () => {
+		const loaded: FontFile[] = [];
+		for (const [index, file] of FONT_FILES.entries()) {
+			try {
+				const bytes = await readFile(path.join(process.cwd(), file));
+				loaded.push({ bytes, font: fontkit.create(bytes) });
+			} catch {
+				if (index === 0) {
+					throw new Error(`The vector PDF export needs the ${file} font in the project root`);
+				}
+			}
+		}
+		return loaded;
+	})();
+	// Let a later export retry if the required font was missing
+	fontFiles.catch(() => (fontFiles = null));
+	return fontFiles;
+}
+
+// Read a theme font once per process; null when its file is missing
+function loadThemeFontFile(family: CardFontFamily): Promise<FontFile | null> {
+	let file = themeFontFiles.get(family);
+	if (!file) {
+		file = readFile(path.join(process.cwd(), CARD_FONT_FILES[family]))
+			.then((bytes) => ({ bytes, font: fontkit.create(bytes) }))
+			.catch(() => null);
+		themeFontFiles.set(family, file);
+	}
+	return file;
+}
+
+/**
+ * Text and image helpers for one PDF document
+ * Fonts are embedded (subsetted) the first time they're drawn with, and every image source
+ * is embedded once no matter how many times it's drawn
+ * @param fontFamily Font set first, with the Noto fonts for the glyphs it lacks; skipped when
+ * its file is missing
+ * @throws Error if the Noto Sans JP font file is missing
+ */
+export async function createDocumentRenderer(
+	pdfDoc: PDFDocument,
+	fontFamily: CardFontFamily = FALLBACK_FONT_FAMILY
+) {
+	pdfDoc.registerFontkit(fontkit);
+	const notoFiles = await loadFontFiles();
+	const themeFont =
+		fontFamily === FALLBACK_FONT_FAMILY ? null : await loadThemeFontFile(fontFamily);
+	const files = themeFont ? [themeFont, ...notoFiles] : notoFiles;
+	const embeddedFonts = new Map<number, Promise<PDFFont>>();
+	const embeddedImages = new Map<string, Promise<PDFImage | null>>();
+	const fallbackImages = new Map<string, Promise<PDFImage>>();
+	const fallbackContext = createCanvas(1, 1).getContext('2d');
+
+	function fallbackFont(fontSize: number): string {
+		return `${fontSize}px "Noto Color Emoji", sans-serif`;
+	}
+
+	// Split text into runs of characters covered by the same font
+	function splitRuns(text: string): TextRun[] {
+		const runs: TextRun[] = [];
+		for (const char of text) {
+			const codePoint = char.codePointAt(0) ?? 0;
+			// Spaces and joiners stay with the run around them
+			const fontIndex = /[\s\u200d\ufe0f]/.test(char)
+				? (runs.at(-1)?.fontIndex ?? 0)
+				: files.findIndex((file) => file.font.hasGlyphForCodePoint(codePoint));
+			const last = runs.at(-1);
+			if (last && last.fontIndex === fontIndex) {
+				last.text += char;
+			} else {
+				runs.push({ text: char, fontIndex });
+			}
+		}
+		return runs;
+	}
+
+	function measureRun(run: TextRun, fontSize: number): number {
+		if (run.fontIndex === -1) {
+			fallbackContext.font = fallbackFont(fontSize);
+			return fallbackContext.measureText(run.text).width;
+		}
+		const { font } = files[run.fontIndex];
+		return (font.layout(run.text).advanceWidth / font.unitsPerEm) * fontSize;
+	}
+
+	const measure: MeasureText = (text, fontSize) =>
+		splitRuns(text).reduce((width, run) => width + measureRun(run, fontSize), 0);
+
+	function getFont(fontIndex: number): Promise<PDFFont> {
+		let font = embeddedFonts.get(fontIndex);
+		if (!font) {
+			font = pdfDoc.embedFont(files[fontIndex].bytes, { subset: true });
+			embeddedFonts.set(fontIndex, font);
+		}
+		return font;
+	}
+
+	/**
+	 * Embed an image once per document (image sources are always PNG or JPEG files)
+	 * @returns The image, or null if its source isn't allowed or it can't be loaded or decoded
+	 */
+	function embedImage(src: string): Promise<PDFImage | null> {
+		let image = embeddedImages.get(src);
+		if (!image) {
+			image = (async () => {
+				try {
+					const bytes = await loadImageSource(src);
+					return bytes[0] === 0x89 ? await pdfDoc.embedPng(bytes) : await pdfDoc.embedJpg(bytes);
+				} catch {
+					return null;
+				}
+			})();
+			embeddedImages.set(src, image);
+		}
+		return image;
+	}
+
+	// Draw text no embedded font covers as a high-resolution image, embedded once per size
+	async function drawFallbackRun(
+		page: PDFPage,
+		run: TextRun,
+		x: number,
+		centerY: number,
+		fontSize: number,
+		width: number,
+		color: string
+	) {
+		const height = fontSize * 1.4;
+		const key = `${fontSize}:${color}:${run.text}`;
+		let image = fallbackImages.get(key);
+		if (!image) {
+			const scale = FALLBACK_TEXT_SCALE;
+			const canvas = createCanvas(Math.max(1, Math.ceil(width * scale)), Math.ceil(height * scale));
+			const ctx = canvas.getContext('2d');
+			ctx.font = fallbackFont(fontSize * scale);
+			ctx.textBaseline = 'middle';
+			ctx.fillStyle = color;
+			ctx.fillText(run.text, 0, canvas.height / 2);
+			image = pdfDoc.embedPng(canvas.toBuffer('image/png'));
+			fallbackImages.set(key, image);
+		}
+		page.drawImage(await image, { x, y: centerY - height / 2, width, height });
+	}
+
+	/**
+	 * Draw one line of text, vertically centred on centerY
+	 * Coordinates are PDF coordinates (origin at the bottom left of the page)
+	 */
+	async function drawLine(
+		page: PDFPage,
+		text: string,
+		x: number,
+		centerY: number,
+		fontSize: number,
+		align: TextAlign,
+		style: TextStyle = {}
+	) {
+		const { color = '#000000', outline = 0 } = style;
+		const pdfColor = hexColor(color);
+		const runs = splitRuns(text).map((run) => ({ ...run, width: measureRun(run, fontSize) }));
+		const totalWidth = runs.reduce((width, run) => width + run.width, 0);
+		let runX = align === 'center' ? x - totalWidth / 2 : align === 'right' ? x - totalWidth : x;
+		// Put the middle of the capital letters on centerY
+		const baseline = centerY - fontSize * 0.35;
+
+		for (const run of runs) {
+			if (run.fontIndex === -1) {
+				await drawFallbackRun(page, run, runX, centerY, fontSize, run.width, color);
+			} else {
+				const font = await getFont(run.fontIndex);
+				if (outline > 0) {
+					page.pushOperators(
+						pushGraphicsState(),
+						setTextRenderingMode(TextRenderingMode.FillAndOutline),
+						setLineWidth(outline),
+						setStrokingColor(pdfColor)
+					);
+				}
+				page.drawText(run.text, { x: runX, y: baseline, size: fontSize, font, color: pdfColor });
+				if (outline > 0) page.pushOperators(popGraphicsState());
+			}
+			runX += run.width;
+		}
+	}
+
+	/**
+	 * Draw lines of text centred as a block on centerY
+	 */
+	async function drawLines(
+		page: PDFPage,
+		lines: string[],
+		x: number,
+		centerY: number,
+		fontSize: number,
+		lineHeight: number,
+		align: TextAlign,
+		style: TextStyle = {}
+	) {
+		let lineY = centerY + ((lines.length - 1) * lineHeight) / 2;
+		for (const line of lines) {
+			await drawLine(page, line, x, lineY, fontSize, align, style);
+			lineY -= lineHeight;
+		}
+	}
+
+	return { measure, embedImage, drawLine, drawLines };
+}
+
+export type DocumentRenderer = Awaited<ReturnType<typeof createDocumentRenderer>>;
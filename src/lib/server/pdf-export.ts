@@ -1,7 +1,7 @@
 import PdfPrinter from 'pdfmake';
 import path from 'node:path';
 import JSZip from 'jszip';
-import type { BingoBoard } from '$lib/utils/bingo';
+import { getFreeSpaceLabel, isFreeCell, type BingoBoard } from '$lib/utils/bingo';
 
 // Resolve absolute path to the Noto Sans JP font bundled in the repo root
 const NOTO_SANS_JP_PATH = path.join(process.cwd(), 'NotoSansJP-VariableFont_wght.ttf');
@@ -35,7 +35,7 @@ interface PDFTable {
 /**
  * Convert a BingoBoard to a PDF table structure
  */
-function boardToPDFTable(board: BingoBoard, showFreeSpace: boolean = true): PDFTable {
+function boardToPDFTable(board: BingoBoard): PDFTable {
 	const tableBody: object[][] = [];
 	const gridSize = board.cells.length;
 
@@ -45,16 +45,17 @@ function boardToPDFTable(board: BingoBoard, showFreeSpace: boolean = true): PDFT
 		for (let j = 0; j < board.cells[i].length; j++) {
 			const cell = board.cells[i][j];
 
-			// Check if it's the free space (center cell for 5x5)
-			const isFreeSpace =
-				showFreeSpace &&
-				gridSize === 5 &&
-				i === 2 &&
-				j === 2;
-
-			if (isFreeSpace) {
+			if (isFreeCell(cell) && board.freeSpace?.type === 'image') {
+				// pdfmake accepts data URLs for images
 				row.push({
-					text: 'FREE',
+					image: board.freeSpace.src,
+					fit: [60, 60],
+					alignment: 'center',
+					margin: [8, 12, 8, 12]
+				});
+			} else if (isFreeCell(cell)) {
+				row.push({
+					text: getFreeSpaceLabel(board.freeSpace),
 					bold: true,
 					fontSize: 16,
 					alignment: 'center',
@@ -89,8 +90,8 @@ function boardToPDFTable(board: BingoBoard, showFreeSpace: boolean = true): PDFT
 /**
  * Generate a single PDF for a bingo board
  */
-function generateSingleBoardPDF(board: BingoBoard, boardNumber: number, showFreeSpace: boolean = true) {
-	const table = boardToPDFTable(board, showFreeSpace);
+function generateSingleBoardPDF(board: BingoBoard, boardNumber: number) {
+	const table = boardToPDFTable(board);
 
 	return {
         content: [
@@ -125,12 +126,11 @@ function generateSingleBoardPDF(board: BingoBoard, boardNumber: number, showFree
  */
 export function generateBoardPDFBlob(
 	board: BingoBoard,
-	boardNumber: number,
-	showFreeSpace: boolean = true
+	boardNumber: number
 ): Promise<Buffer> {
     return new Promise((resolve, reject) => {
         try {
-            const docDefinition = generateSingleBoardPDF(board, boardNumber, showFreeSpace);
+            const docDefinition = generateSingleBoardPDF(board, boardNumber);
             const pdfDoc = printer.createPdfKitDocument(docDefinition);
             const chunks: Buffer[] = [];
             pdfDoc.on('data', (chunk: Buffer) => chunks.push(chunk));
@@ -146,15 +146,12 @@ export function generateBoardPDFBlob(
 /**
  * Generate all bingo boards as a single PDF
  */
-export function generateBingoBoardsPDF(
-	boards: BingoBoard[],
-	showFreeSpace: boolean = true
-): Promise<Buffer> {
+export function generateBingoBoardsPDF(boards: BingoBoard[]): Promise<Buffer> {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const content: any[] = [];
 
 	boards.forEach((board, index) => {
-		const table = boardToPDFTable(board, showFreeSpace);
+		const table = boardToPDFTable(board);
 
         // Add table (new page before every board except first)
         content.push({
@@ -205,16 +202,13 @@ export function generateBingoBoardsPDF(
 /**
  * Generate individual PDFs for each board and zip them
  */
-export async function generateBingoBoardsPDFZip(
-	boards: BingoBoard[],
-	showFreeSpace: boolean = true
-): Promise<Buffer> {
+export async function generateBingoBoardsPDFZip(boards: BingoBoard[]): Promise<Buffer> {
 	const zip = new JSZip();
 
 	// Generate individual PDFs for each board
 	for (let i = 0; i < boards.length; i++) {
 		const board = boards[i];
-		const pdfBuffer = await generateBoardPDFBlob(board, i + 1, showFreeSpace);
+		const pdfBuffer = await generateBoardPDFBlob(board, i + 1);
 
 		// Add PDF to zip with numbered filename
 		zip.file(`bingo_board_${String(i + 1).padStart(3, '0')}.pdf`, pdfBuffer);
@@ -0,0 +1,172 @@
+/**
+ * Server-side cache for fetched playlists, albums and artists
+ * Entries are keyed by source and (for playlists) Spotify snapshot_id, so an edited
+ * playlist is fetched again while repeated exports of the same one are served from cache
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { env } from '$env/dynamic/private';
+import type { PlaylistData } from '$lib/interfaces/spotify.interface';
+
+export interface PlaylistCacheEntry {
+	data: PlaylistData;
+	/** Unix time in ms after which the entry is ignored */
+	expiresAt: number;
+}
+
+/**
+ * Backing store for the playlist cache
+ */
+export interface PlaylistCacheStore {
+	get(key: string): Promise<PlaylistCacheEntry | null>;
+	set(key: string, entry: PlaylistCacheEntry): Promise<void>;
+	delete(key: string): Promise<void>;
+}
+
+/** How long entries stay valid unless PLAYLIST_CACHE_TTL (seconds) says otherwise */
+const DEFAULT_TTL_SECONDS = 60 * 60;
+
+/** Entries kept by the in-memory store before the oldest are dropped */
+const MAX_MEMORY_ENTRIES = 100;
+
+/**
+ * Keep entries in process memory (lost on restart)
+ */
+export function createMemoryStore(maxEntries: number = MAX_MEMORY_ENTRIES): PlaylistCacheStore {
+	const entries = new Map<string, PlaylistCacheEntry>();
+
+	return {
+		async get(key) {
+			const entry = entries.get(key);
+			if (!entry) return null;
+			// Re-insert so the map stays in least recently used order
+			entries.delete(key);
+			entries.set(key, entry);
+			return entry;
+		},
+		async set(key, entry) {
+			entries.delete(key);
+			entries.set(key, entry);
+			while (entries.size > maxEntries) {
+				entries.delete(entries.keys().next().value!);
+			}
+		},
+		async delete(key) {
+			entries.delete(key);
+		}
+	};
+}
+
+async function readEntryFile(file: string): Promise<PlaylistCacheEntry | null> {
+	try {
+		return JSON.parse(await readFile(file, 'utf8'));
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Keep entries as JSON files in a directory (survives restarts, shared between processes)
+ * Expired files are deleted when read, and every write prunes the rest, as entries for old
+ * playlist snapshots are never read again
+ */
+export function createDiskStore(directory: string): PlaylistCacheStore {
+	const pathFor = (key: string) =>
+		join(directory, `${createHash('sha1').update(key).digest('hex')}.json`);
+
+	async function pruneExpired() {
+		const now = Date.now();
+		for (const name of await readdir(directory)) {
+			if (!name.endsWith('.json')) continue;
+			const file = join(directory, name);
+			const entry = await readEntryFile(file);
+			if (entry && entry.expiresAt <= now) await rm(file, { force: true });
+		}
+	}
+
+	return {
+		async get(key) {
+			const file = pathFor(key);
+			const entry = await readEntryFile(file);
+			if (entry && entry.expiresAt <= Date.now()) {
+				await rm(file, { force: true });
+				return null;
+			}
+			return entry;
+		},
+		async set(key, entry) {
+			await mkdir(directory, { recursive: true });
+			await writeFile(pathFor(key), JSON.stringify(entry));
+			await pruneExpired();
+		},
+		async delete(key) {
+			await rm(pathFor(key), { force: true });
+		}
+	};
+}
+
+/**
+ * Create the store selected by PLAYLIST_CACHE ("memory" (default), "disk" or "off")
+ * The disk store writes to PLAYLIST_CACHE_DIR (default: .cache/playlists)
+ */
+function createConfiguredStore(): PlaylistCacheStore | null {
+	switch (env.PLAYLIST_CACHE || 'memory') {
+		case 'off':
+			return null;
+		case 'disk':
+			return createDiskStore(env.PLAYLIST_CACHE_DIR || '.cache/playlists');
+		default:
+			return createMemoryStore();
+	}
+}
+
+let store: PlaylistCacheStore | null | undefined;
+const pending = new Map<string, Promise<PlaylistData>>();
+
+/**
+ * Replace the backing store (null turns caching off)
+ */
+export function setPlaylistCacheStore(next: PlaylistCacheStore | null): void {
+	store = next;
+	pending.clear();
+}
+
+function getTtlMs(): number {
+	const seconds = Number(env.PLAYLIST_CACHE_TTL);
+	return (Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_TTL_SECONDS) * 1000;
+}
+
+/**
+ * Return the cached data for a key, or load, cache and return it
+ * Concurrent calls for the same key share one load; cache read and write errors fall
+ * back to loading so a broken store never breaks fetching
+ */
+export async function withPlaylistCache(
+	key: string,
+	load: () => Promise<PlaylistData>
+): Promise<PlaylistData> {
+	if (store === undefined) store = createConfiguredStore();
+	const activeStore = store;
+	if (!activeStore) return load();
+
+	const inFlight = pending.get(key);
+	if (inFlight) return inFlight;
+
+	const promise = (async () => {
+		const entry = await activeStore.get(key).catch(() => null);
+		if (entry && entry.expiresAt > Date.now()) {
+			return entry.data;
+		}
+
+		const data = await load();
+		await activeStore.set(key, { data, expiresAt: Date.now() + getTtlMs() }).catch(() => {});
+		return data;
+	})().finally(() => {
+		pending.delete(key);
+	});
+
+	pending.set(key, promise);
+	return promise;
+}
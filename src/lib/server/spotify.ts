@@ -1,10 +1,21 @@
-import { SPOTIFY_CLIENT_ID, SPOTIFY_CLIENT_SECRET } from '$env/static/private';
+import { env } from '$env/dynamic/private';
+import type { MusicSourceProvider } from '$lib/interfaces/music-source.interface';
 import type {
 	SpotifyTokenResponse,
 	SpotifyPlaylist,
+	SpotifyPlaylistTrack,
+	SpotifyPaging,
+	SpotifyAlbum,
+	SpotifyArtist,
+	SpotifyFullAlbum,
+	SpotifySimplifiedTrack,
+	SpotifyTrack,
 	PlaylistData,
 	PlaylistSongInfo
 } from '$lib/interfaces/spotify.interface';
+import { getSongDedupeKey } from '$lib/utils/playlist';
+import { mapWithConcurrency } from './concurrency';
+import { withPlaylistCache } from './playlist-cache';
 
 // Types for Spotify API responses
 class SpotifyError extends Error {
@@ -14,19 +25,99 @@ class SpotifyError extends Error {
 	}
 }
 
+/** Attempts per request before a 429, 5xx or network error is passed on */
+const MAX_ATTEMPTS = 4;
+
+/** Backoff before the first retry, doubled for every further attempt */
+const BASE_RETRY_DELAY_MS = 500;
+
+/** Longest Retry-After we are willing to wait before giving up */
+const MAX_RETRY_AFTER_MS = 30_000;
+
+/** Refresh the access token this long before Spotify says it expires */
+const TOKEN_EXPIRY_MARGIN_MS = 60_000;
+
 /**
- * Get access token using Client Credentials flow
- * This allows fetching public playlists without user authentication
+ * Client settings, read from the environment on every call
+ * SPOTIFY_API_URL and SPOTIFY_ACCOUNTS_URL point the client at a local stand-in server
  */
-async function getAccessToken(): Promise<string> {
-	const clientId = SPOTIFY_CLIENT_ID;
-	const clientSecret = SPOTIFY_CLIENT_SECRET;
+function getClientConfig() {
+	const concurrency = Number(env.SPOTIFY_PAGE_CONCURRENCY);
+	return {
+		apiUrl: (env.SPOTIFY_API_URL || 'https://api.spotify.com/v1').replace(/\/$/, ''),
+		accountsUrl: (env.SPOTIFY_ACCOUNTS_URL || 'https://accounts.spotify.com').replace(/\/$/, ''),
+		pageConcurrency: Number.isInteger(concurrency) && concurrency > 0 ? concurrency : 1
+	};
+}
+
+let cachedToken: { value: string; expiresAt: number } | null = null;
+let pendingToken: Promise<string> | null = null;
+
+// Set when Spotify answers 429 so concurrent requests wait out the same Retry-After
+let rateLimitedUntil = 0;
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * How long to wait before retrying, from the Retry-After header (seconds or HTTP date)
+ * or exponential backoff with jitter when there is none
+ */
+function getRetryDelay(response: Response | null, attempt: number): number {
+	const retryAfter = response?.headers.get('retry-after');
+	if (retryAfter) {
+		const seconds = Number(retryAfter);
+		const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+		if (Number.isFinite(ms)) return Math.max(0, ms);
+	}
+	const backoff = BASE_RETRY_DELAY_MS * 2 ** attempt;
+	return backoff + Math.random() * backoff * 0.25;
+}
+
+function isRetryableStatus(status: number): boolean {
+	return status === 429 || status === 500 || status === 502 || status === 503 || status === 504;
+}
+
+/**
+ * fetch with retries for rate limits (honouring Retry-After), transient 5xx errors
+ * and network failures
+ * @returns The last response, which may still be an error response
+ */
+async function fetchWithRetry(url: string, init: RequestInit): Promise<Response> {
+	for (let attempt = 0; ; attempt++) {
+		const wait = rateLimitedUntil - Date.now();
+		if (wait > 0) await sleep(wait);
+
+		let response: Response | null = null;
+		try {
+			response = await fetch(url, init);
+		} catch (error) {
+			if (attempt + 1 >= MAX_ATTEMPTS) throw error;
+		}
+
+		if (response && !isRetryableStatus(response.status)) return response;
+		if (response && attempt + 1 >= MAX_ATTEMPTS) return response;
+
+		const delay = getRetryDelay(response, attempt);
+		if (response?.status === 429) {
+			if (delay > MAX_RETRY_AFTER_MS) return response;
+			rateLimitedUntil = Math.max(rateLimitedUntil, Date.now() + delay);
+		}
+		await sleep(delay);
+	}
+}
+
+/**
+ * Request a new access token using Client Credentials flow
+ */
+async function requestAccessToken(): Promise<string> {
+	const clientId = env.SPOTIFY_CLIENT_ID;
+	const clientSecret = env.SPOTIFY_CLIENT_SECRET;
 
 	if (!clientId || !clientSecret) {
 		throw new SpotifyError('Spotify credentials not configured. Need SPOTIFY_CLIENT_ID and SPOTIFY_CLIENT_SECRET');
 	}
 
-	const response = await fetch('https://accounts.spotify.com/api/token', {
+	const response = await fetchWithRetry(`${getClientConfig().accountsUrl}/api/token`, {
 		method: 'POST',
 		headers: {
 			'Content-Type': 'application/x-www-form-urlencoded',
@@ -40,60 +131,134 @@ async function getAccessToken(): Promise<string> {
 	}
 
 	const data: SpotifyTokenResponse = await response.json();
+	cachedToken = {
+		value: data.access_token,
+		expiresAt: Date.now() + data.expires_in * 1000 - TOKEN_EXPIRY_MARGIN_MS
+	};
 	return data.access_token;
 }
 
 /**
- * Extract playlist ID from a Spotify playlist link
+ * Get access token using Client Credentials flow
+ * This allows fetching public playlists without user authentication
+ * The token is cached until shortly before it expires and shared by concurrent requests
+ */
+async function getAccessToken(): Promise<string> {
+	if (cachedToken && cachedToken.expiresAt > Date.now()) {
+		return cachedToken.value;
+	}
+
+	pendingToken ??= requestAccessToken().finally(() => {
+		pendingToken = null;
+	});
+	return pendingToken;
+}
+
+export type SpotifySourceType = 'playlist' | 'album' | 'artist';
+
+export interface SpotifySourceRef {
+	type: SpotifySourceType;
+	id: string;
+}
+
+// spotify:playlist:ID, spotify:album:ID, spotify:artist:ID and legacy spotify:user:NAME:playlist:ID
+const SOURCE_URI_PATTERN = /^spotify:(?:user:[^:]+:)?(playlist|album|artist):([a-zA-Z0-9]+)$/i;
+
+// open.spotify.com links, including intl-xx/, embed/ and legacy user/NAME/ prefixes
+const SOURCE_URL_PATTERN =
+	/(?:https?:\/\/)?(?:open|play)\.spotify\.com\/(?:intl-[a-z]{2}(?:-[a-z]{2,4})?\/|embed\/|user\/[^/]+\/)*(playlist|album|artist)\/([a-zA-Z0-9]+)/i;
+
+// Short links shared from the Spotify apps
+const SHORT_LINK_PATTERN = /^(?:https?:\/\/)?(?:spotify\.link|spoti\.fi)\//i;
+
+// Hosts a short link may redirect to; a redirect anywhere else is refused
+const SHORT_LINK_REDIRECT_HOSTS = new Set(['spotify.link', 'spotify.app.link', 'open.spotify.com']);
+
+/** Market used where Spotify requires one (artist top tracks) */
+const DEFAULT_MARKET = 'US';
+
+/** Most albums and singles read when building an artist's song pool */
+const MAX_ARTIST_ALBUMS = 100;
+
+/**
+ * Parse a Spotify playlist, album or artist link or URI
  * Supports formats:
- * - https://open.spotify.com/playlist/PLAYLIST_ID
- * - https://open.spotify.com/playlist/PLAYLIST_ID?si=...
- * - spotify:playlist:PLAYLIST_ID
+ * - https://open.spotify.com/playlist/ID (also /album/ and /artist/, with or without ?si=...)
+ * - https://open.spotify.com/intl-xx/playlist/ID
+ * - https://open.spotify.com/embed/playlist/ID
+ * - spotify:playlist:ID, spotify:album:ID, spotify:artist:ID
+ * Short links (spotify.link, spoti.fi) have to be resolved first, see getSourceFromLink
+ */
+export function parseSpotifyLink(link: string): SpotifySourceRef | null {
+	const trimmed = link.trim();
+	const match = trimmed.match(SOURCE_URI_PATTERN) ?? trimmed.match(SOURCE_URL_PATTERN);
+	if (!match) return null;
+	return { type: match[1].toLowerCase() as SpotifySourceType, id: match[2] };
+}
+
+/**
+ * Extract playlist ID from a Spotify playlist link
+ * Accepts every playlist format parseSpotifyLink understands
  */
 export function extractPlaylistIdFromLink(playlistLink: string): string | null {
-	try {
-		// Handle spotify: URI format
-		if (playlistLink.startsWith('spotify:playlist:')) {
-			return playlistLink.replace('spotify:playlist:', '');
-		}
+	const ref = parseSpotifyLink(playlistLink);
+	return ref?.type === 'playlist' ? ref.id : null;
+}
+
+/**
+ * Follow a spotify.link / spoti.fi short link to the open.spotify.com link it points to
+ * @throws SpotifyError if the link redirects to a host that isn't Spotify's
+ */
+async function resolveShortLink(link: string): Promise<string> {
+	let url = /^https?:\/\//i.test(link) ? link : `https://${link}`;
 
-		// Handle https:// format
-		if (playlistLink.includes('open.spotify.com/playlist/')) {
-			const match = playlistLink.match(/playlist\/([a-zA-Z0-9]+)/);
-			if (match && match[1]) {
-				return match[1];
+	for (let hop = 0; hop < 5; hop++) {
+		const response = await fetch(url, { redirect: 'manual' });
+		const location = response.headers.get('location');
+		if (location) {
+			const target = new URL(location, url);
+			if (!SHORT_LINK_REDIRECT_HOSTS.has(target.hostname)) {
+				throw new SpotifyError('The Spotify short link redirects away from Spotify', 400);
 			}
+			url = target.toString();
+			if (parseSpotifyLink(url)) return url;
+			continue;
 		}
 
-		return null;
-	} catch {
-		return null;
+		// Some short links answer with a landing page that contains the target link
+		const match = (await response.text()).match(SOURCE_URL_PATTERN);
+		if (match) return match[0];
+		break;
 	}
+
+	throw new SpotifyError('Could not resolve the Spotify short link', 400);
 }
 
 /**
- * Fetch a single page of playlist tracks from Spotify API
+ * Make an authenticated GET request to the Spotify Web API
+ * @param path API path after /v1 (e.g. /albums/ID)
+ * @param notFoundMessage Error message for a 404 response
  */
-async function getPlaylistTracksPage(
-	playlistId: string,
-	offset: number = 0,
-	limit: number = 50
-): Promise<any> {
-	const accessToken = await getAccessToken();
-
-	const response = await fetch(
-		`https://api.spotify.com/v1/playlists/${playlistId}/tracks?offset=${offset}&limit=${limit}`,
-		{
+async function spotifyGet<T>(path: string, notFoundMessage: string): Promise<T> {
+	const request = async () =>
+		fetchWithRetry(`${getClientConfig().apiUrl}${path}`, {
 			headers: {
-				'Authorization': `Bearer ${accessToken}`,
+				'Authorization': `Bearer ${await getAccessToken()}`,
 				'Content-Type': 'application/json'
 			}
-		}
-	);
+		});
+
+	let response = await request();
+
+	// A cached token can be revoked before it expires: get a fresh one and try once more
+	if (response.status === 401 && cachedToken) {
+		cachedToken = null;
+		response = await request();
+	}
 
 	if (!response.ok) {
 		if (response.status === 404) {
-			throw new SpotifyError('Playlist not found', 404);
+			throw new SpotifyError(notFoundMessage, 404);
 		}
 		if (response.status === 401) {
 			throw new SpotifyError('Authentication failed', 401);
@@ -107,91 +272,238 @@ async function getPlaylistTracksPage(
 	return response.json();
 }
 
+/**
+ * Fetch a single page of playlist tracks from Spotify API
+ */
+async function getPlaylistTracksPage(
+	playlistId: string,
+	offset: number = 0,
+	limit: number = 50
+): Promise<SpotifyPaging<SpotifyPlaylistTrack>> {
+	return spotifyGet(
+		`/playlists/${playlistId}/tracks?offset=${offset}&limit=${limit}`,
+		'Playlist not found'
+	);
+}
+
+/**
+ * Convert a Spotify track into the song info used for bingo
+ * @param album The track's album (album tracks don't carry it themselves)
+ */
+function toSongInfo(track: SpotifySimplifiedTrack, album: SpotifyAlbum): PlaylistSongInfo {
+	const artistNames = track.artists.map((artist) => artist.name);
+	return {
+		id: track.id,
+		name: track.name,
+		artist: artistNames[0] || 'Unknown Artist',
+		artists: artistNames,
+		album: album.name,
+		releaseDate: album.release_date || null,
+		uri: track.uri,
+		link: track.external_urls.spotify,
+		image: album.images.length > 0 ? album.images[0].url : null,
+		durationMs: track.duration_ms
+	};
+}
+
+/**
+ * Fetch song data for any supported Spotify link: a playlist, an album or an artist
+ * Resolves short links first; albums and artists come back in the same shape as playlists
+ * Works with public playlists only
+ */
+export async function getSourceFromLink(link: string): Promise<PlaylistData> {
+	try {
+		const trimmed = link.trim();
+		const resolved = SHORT_LINK_PATTERN.test(trimmed) ? await resolveShortLink(trimmed) : trimmed;
+		const ref = parseSpotifyLink(resolved);
+		if (!ref) {
+			throw new SpotifyError(
+				'Unsupported Spotify link. Use a playlist, album or artist link or URI',
+				400
+			);
+		}
+
+		switch (ref.type) {
+			case 'playlist':
+				return await getCachedPlaylist(ref.id);
+			case 'album':
+				return await withPlaylistCache(`album:${ref.id}`, () => getAlbumById(ref.id));
+			case 'artist':
+				return await withPlaylistCache(`artist:${ref.id}`, () => getArtistById(ref.id));
+		}
+	} catch (error) {
+		if (error instanceof SpotifyError) {
+			throw error;
+		}
+		throw new SpotifyError(`Failed to get Spotify data: ${error}`);
+	}
+}
+
+export const spotifyProvider: MusicSourceProvider = {
+	name: 'spotify',
+	resolve: getSourceFromLink
+};
+
 /**
  * Fetch complete playlist data from Spotify using a playlist link
  * Automatically paginates through all tracks
  * Works with public playlists only
  */
 export async function getPlaylistFromLink(playlistLink: string): Promise<PlaylistData> {
-	try {
-		// Extract playlist ID from link
-		const playlistId = extractPlaylistIdFromLink(playlistLink);
-		if (!playlistId) {
-			throw new SpotifyError('Invalid Spotify playlist link format', 400);
-		}
+	const playlistId = extractPlaylistIdFromLink(playlistLink);
+	if (!playlistId) {
+		throw new SpotifyError('Invalid Spotify playlist link format', 400);
+	}
+	return getCachedPlaylist(playlistId);
+}
+
+/**
+ * Get a playlist from the playlist cache, fetching it if its current snapshot isn't cached
+ * Checking the snapshot costs one small request instead of one per page of tracks
+ */
+async function getCachedPlaylist(playlistId: string): Promise<PlaylistData> {
+	const { snapshot_id } = await spotifyGet<Pick<SpotifyPlaylist, 'snapshot_id'>>(
+		`/playlists/${playlistId}?fields=snapshot_id`,
+		'Playlist not found'
+	);
+	return withPlaylistCache(`playlist:${playlistId}:${snapshot_id}`, () =>
+		getPlaylistById(playlistId)
+	);
+}
 
-		const accessToken = await getAccessToken();
+/**
+ * Fetch a playlist and all of its tracks by playlist ID
+ */
+async function getPlaylistById(playlistId: string): Promise<PlaylistData> {
+	// Fetch basic playlist info
+	const playlist = await spotifyGet<SpotifyPlaylist>(`/playlists/${playlistId}`, 'Playlist not found');
 
-		// Fetch basic playlist info
-		const playlistResponse = await fetch(
-			`https://api.spotify.com/v1/playlists/${playlistId}`,
-			{
-				headers: {
-					'Authorization': `Bearer ${accessToken}`,
-					'Content-Type': 'application/json'
-				}
-			}
-		);
+	// Fetch all tracks (with pagination, SPOTIFY_PAGE_CONCURRENCY pages at a time)
+	const allSongs: PlaylistSongInfo[] = [];
+	const limit = 50; // Spotify API limit
+	const offsets: number[] = [];
+	for (let offset = 0; offset < playlist.tracks.total; offset += limit) {
+		offsets.push(offset);
+	}
 
-		if (!playlistResponse.ok) {
-			if (playlistResponse.status === 404) {
-				throw new SpotifyError('Playlist not found', 404);
-			}
-			if (playlistResponse.status === 401) {
-				throw new SpotifyError('Authentication failed', 401);
+	const pages = await mapWithConcurrency(offsets, getClientConfig().pageConcurrency, (offset) =>
+		getPlaylistTracksPage(playlistId, offset, limit)
+	);
+
+	for (const tracksPage of pages) {
+		for (const item of tracksPage.items) {
+			// Skip if track is null (can happen in some playlists)
+			if (!item.track) {
+				continue;
 			}
-			throw new SpotifyError(`Failed to fetch playlist: ${playlistResponse.status}`, playlistResponse.status);
+			allSongs.push(toSongInfo(item.track, item.track.album));
 		}
+	}
 
-		const playlist: SpotifyPlaylist = await playlistResponse.json();
-
-		// Fetch all tracks (with pagination)
-		const allSongs: PlaylistSongInfo[] = [];
-		let offset = 0;
-		const limit = 50; // Spotify API limit
-
-		while (offset < playlist.tracks.total) {
-			const tracksPage = await getPlaylistTracksPage(playlistId, offset, limit);
-
-			for (const item of tracksPage.items) {
-				// Skip if track is null (can happen in some playlists)
-				if (!item.track) {
-					continue;
-				}
-
-				const track = item.track;
-				const artistNames = track.artists.map((artist: any) => artist.name);
-
-				allSongs.push({
-					id: track.id,
-					name: track.name,
-					artist: artistNames[0] || 'Unknown Artist',
-					artists: artistNames,
-					uri: track.uri,
-					link: track.external_urls.spotify,
-					image: track.album.images.length > 0 ? track.album.images[0].url : null,
-					durationMs: track.duration_ms
-				});
-			}
+	return {
+		id: playlist.id,
+		name: playlist.name,
+		description: playlist.description,
+		ownerName: playlist.owner.display_name,
+		totalTracks: playlist.tracks.total,
+		playlistLink: playlist.external_urls.spotify,
+		songs: allSongs
+	};
+}
 
-			offset += limit;
-		}
+/**
+ * Fetch an album and all of its tracks by album ID
+ */
+async function getAlbumById(albumId: string): Promise<PlaylistData> {
+	const album = await spotifyGet<SpotifyFullAlbum>(`/albums/${albumId}`, 'Album not found');
 
-		return {
-			id: playlist.id,
-			name: playlist.name,
-			description: playlist.description,
-			ownerName: playlist.owner.display_name,
-			totalTracks: playlist.tracks.total,
-			playlistLink: playlist.external_urls.spotify,
-			songs: allSongs
-		};
-	} catch (error) {
-		if (error instanceof SpotifyError) {
-			throw error;
+	// The album response includes the first page of tracks
+	const offsets: number[] = [];
+	for (let offset = album.tracks.items.length; offset < album.tracks.total; offset += 50) {
+		offsets.push(offset);
+	}
+	const pages = await mapWithConcurrency(offsets, getClientConfig().pageConcurrency, (offset) =>
+		spotifyGet<SpotifyPaging<SpotifySimplifiedTrack>>(
+			`/albums/${albumId}/tracks?offset=${offset}&limit=50`,
+			'Album not found'
+		)
+	);
+	const tracks = [...album.tracks.items, ...pages.flatMap((page) => page.items)];
+
+	const artistNames = album.artists.map((artist) => artist.name).join(', ');
+	return {
+		id: album.id,
+		name: album.name,
+		description: `Album by ${artistNames}`,
+		ownerName: artistNames,
+		totalTracks: album.total_tracks,
+		playlistLink: album.external_urls.spotify,
+		songs: tracks.map((track) => toSongInfo(track, album))
+	};
+}
+
+/**
+ * Build a song pool from an artist's top tracks followed by the tracks on their albums
+ * and singles (only tracks the artist plays on, one version of each song)
+ */
+async function getArtistById(artistId: string): Promise<PlaylistData> {
+	const artist = await spotifyGet<SpotifyArtist>(`/artists/${artistId}`, 'Artist not found');
+	const { tracks: topTracks } = await spotifyGet<{ tracks: SpotifyTrack[] }>(
+		`/artists/${artistId}/top-tracks?market=${DEFAULT_MARKET}`,
+		'Artist not found'
+	);
+
+	const albumIds: string[] = [];
+	for (let offset = 0; offset < MAX_ARTIST_ALBUMS; offset += 50) {
+		const page = await spotifyGet<SpotifyPaging<SpotifyAlbum>>(
+			`/artists/${artistId}/albums?include_groups=album,single&limit=50&offset=${offset}`,
+			'Artist not found'
+		);
+		albumIds.push(...page.items.map((album) => album.id));
+		if (!page.next) break;
+	}
+
+	// Several albums per request (each with its first 50 tracks)
+	const albums: SpotifyFullAlbum[] = [];
+	for (let i = 0; i < albumIds.length; i += 20) {
+		const ids = albumIds.slice(i, i + 20).join(',');
+		const batch = await spotifyGet<{ albums: SpotifyFullAlbum[] }>(
+			`/albums?ids=${ids}`,
+			'Album not found'
+		);
+		albums.push(...batch.albums.filter(Boolean));
+	}
+
+	const songs: PlaylistSongInfo[] = [];
+	const seen = new Set<string>();
+	const addSong = (song: PlaylistSongInfo) => {
+		const key = getSongDedupeKey(song);
+		if (seen.has(song.id) || seen.has(key)) return;
+		seen.add(song.id);
+		seen.add(key);
+		songs.push(song);
+	};
+
+	for (const track of topTracks) {
+		addSong(toSongInfo(track, track.album));
+	}
+	for (const album of albums) {
+		for (const track of album.tracks.items) {
+			if (track.artists.some((trackArtist) => trackArtist.id === artistId)) {
+				addSong(toSongInfo(track, album));
+			}
 		}
-		throw new SpotifyError(`Failed to get playlist: ${error}`);
 	}
+
+	return {
+		id: artist.id,
+		name: artist.name,
+		description: `Songs by ${artist.name}`,
+		ownerName: artist.name,
+		totalTracks: songs.length,
+		playlistLink: artist.external_urls.spotify,
+		songs
+	};
 }
 
 /**
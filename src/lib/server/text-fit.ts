@@ -0,0 +1,75 @@
+/**
+ * Wrap and shrink text to fit a box, independent of how the text is measured
+ */
+
+/** Width of a single line of text at a font size */
+export type MeasureText = (text: string, fontSize: number) => number;
+
+export interface FittedText {
+	lines: string[];
+	fontSize: number;
+	lineHeight: number;
+}
+
+/**
+ * Split text into the pieces wrapText never breaks: words, or the characters of text without
+ * spaces (e.g. Japanese)
+ */
+export function getWrapTokens(text: string): string[] {
+	return /\s/.test(text) ? text.split(/\s+/) : Array.from(text);
+}
+
+/**
+ * Wrap text into lines no wider than maxWidth
+ * Text without spaces (e.g. Japanese) is wrapped between characters
+ */
+export function wrapText(
+	text: string,
+	fontSize: number,
+	maxWidth: number,
+	measure: MeasureText
+): string[] {
+	const hasSpaces = /\s/.test(text);
+	const tokens = getWrapTokens(text);
+	const lines: string[] = [];
+	let current = '';
+	for (const token of tokens) {
+		const test = current ? (hasSpaces ? `${current} ${token}` : `${current}${token}`) : token;
+		if (measure(test, fontSize) <= maxWidth) {
+			current = test;
+		} else {
+			if (current) lines.push(current);
+			current = token;
+		}
+	}
+	if (current) lines.push(current);
+	return lines;
+}
+
+/**
+ * Find the largest font size, from baseFontSize down to minFontSize, at which the first
+ * maxLines wrapped lines fit the box height; lines past maxLines are cut off
+ */
+export function fitTextToBox(
+	text: string,
+	boxWidth: number,
+	boxHeight: number,
+	maxLines: number,
+	baseFontSize: number,
+	measure: MeasureText,
+	minFontSize = 10
+): FittedText {
+	const minFont = Math.max(minFontSize, baseFontSize * 0.5);
+	for (let fontSize = baseFontSize; fontSize >= minFont; fontSize -= 1) {
+		const lineHeight = fontSize * 1.2;
+		const lines = wrapText(text, fontSize, boxWidth, measure).slice(0, maxLines);
+		if (lines.length * lineHeight <= boxHeight) {
+			return { lines, fontSize, lineHeight };
+		}
+	}
+	return {
+		lines: wrapText(text, minFont, boxWidth, measure).slice(0, maxLines),
+		fontSize: minFont,
+		lineHeight: minFont * 1.2
+	};
+}
@@ -0,0 +1,462 @@
+/**
+ * Vector PDF renderer: boards are drawn as real text and lines instead of full-card images
+ * Text stays sharp at any print size, can be searched and copied, and the file stays small
+ * because fonts are subsetted and each album cover is embedded once per document
+ */
+
+import QRCode from 'qrcode';
+import {
+	appendBezierCurve,
+	clip,
+	closePath,
+	endPath,
+	LineCapStyle,
+	lineTo,
+	moveTo,
+	PDFDocument,
+	popGraphicsState,
+	pushGraphicsState,
+	rgb,
+	type PDFImage,
+	type PDFPage
+} from 'pdf-lib';
+import {
+	formatBoardSerial,
+	getFreeSpaceLabel,
+	isFreeCell,
+	type BingoBoard
+} from '$lib/utils/bingo';
+import type { CardBranding } from '$lib/utils/card-branding';
+import {
+	ART_WASH_OPACITY,
+	DEFAULT_CARD_THEME,
+	getBorderDash,
+	getCellFill,
+	getCellInset,
+	TEXT_WEIGHTS,
+	type CardTheme
+} from '$lib/utils/card-theme';
+import {
+	DEFAULT_PRINT_LAYOUT,
+	getBoardSlots,
+	getPageDimensions,
+	type BoardSlot
+} from '$lib/utils/print-layout';
+import { drawCropMarks, type CanvasExportOptions } from './canvas-pdf-export';
+import { getCardLayout, QR_QUIET_ZONE } from './card-layout';
+import { BLACK, createDocumentRenderer, hexColor, type DocumentRenderer } from './pdf-document';
+import { fitTextToBox } from './text-fit';
+
+// Theme sizes are in pixels at the canvas renderer's 150 DPI
+const POINTS_PER_PIXEL = 72 / 150;
+
+// Control point distance for a quarter circle drawn as a Bézier curve, as a share of the radius
+const BEZIER_CIRCLE = 0.5523;
+
+// Smallest font size in points (10px at 150 DPI)
+const MIN_FONT_SIZE = 4.8;
+
+/**
+ * Draw a QR code as filled rectangles, merging neighbouring dark modules in a row
+ * @param x Left edge, in PDF coordinates
+ * @param y Bottom edge, in PDF coordinates
+ */
+function drawQrCode(page: PDFPage, text: string, x: number, y: number, side: number) {
+	const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+	const moduleSize = side / (modules.size + QR_QUIET_ZONE * 2);
+	const top = y + side - QR_QUIET_ZONE * moduleSize;
+	const left = x + QR_QUIET_ZONE * moduleSize;
+
+	page.drawRectangle({ x, y, width: side, height: side, color: rgb(1, 1, 1) });
+	for (let row = 0; row < modules.size; row++) {
+		let col = 0;
+		while (col < modules.size) {
+			if (!modules.get(row, col)) {
+				col++;
+				continue;
+			}
+			const start = col;
+			while (col < modules.size && modules.get(row, col)) col++;
+			page.drawRectangle({
+				x: left + start * moduleSize,
+				y: top - (row + 1) * moduleSize,
+				width: (col - start) * moduleSize,
+				height: moduleSize,
+				color: BLACK
+			});
+		}
+	}
+}
+
+/**
+ * Get the SVG path of a square with rounded corners (card coordinates, y at the top)
+ */
+function roundedSquarePath(x: number, y: number, side: number, radius: number): string {
+	const r = radius;
+	const end = side - r * 2;
+	return (
+		`M ${x + r} ${y} h ${end} a ${r} ${r} 0 0 1 ${r} ${r} v ${end} ` +
+		`a ${r} ${r} 0 0 1 ${-r} ${r} h ${-end} a ${r} ${r} 0 0 1 ${-r} ${-r} v ${-end} ` +
+		`a ${r} ${r} 0 0 1 ${r} ${-r} Z`
+	);
+}
+
+/**
+ * Clip everything drawn after this to a square with rounded corners, until the graphics
+ * state is popped
+ * @param x Left edge, in PDF coordinates
+ * @param y Bottom edge, in PDF coordinates
+ */
+function clipToRoundedSquare(page: PDFPage, x: number, y: number, side: number, radius: number) {
+	const k = radius * (1 - BEZIER_CIRCLE);
+	const right = x + side;
+	const top = y + side;
+	page.pushOperators(
+		pushGraphicsState(),
+		moveTo(x + radius, y),
+		lineTo(right - radius, y),
+		appendBezierCurve(right - k, y, right, y + k, right, y + radius),
+		lineTo(right, top - radius),
+		appendBezierCurve(right, top - k, right - k, top, right - radius, top),
+		lineTo(x + radius, top),
+		appendBezierCurve(x + k, top, x, top - k, x, top - radius),
+		lineTo(x, y + radius),
+		appendBezierCurve(x, y + k, x + k, y, x + radius, y),
+		closePath(),
+		clip(),
+		endPath()
+	);
+}
+
+/**
+ * Draw an image contain-fitted and centred in a box (PDF coordinates, y at the bottom)
+ */
+function drawImageInBox(
+	page: PDFPage,
+	image: PDFImage,
+	x: number,
+	y: number,
+	width: number,
+	height: number
+) {
+	const scale = Math.min(width / image.width, height / image.height);
+	const dw = image.width * scale;
+	const dh = image.height * scale;
+	page.drawImage(image, {
+		x: x + (width - dw) / 2,
+		y: y + (height - dh) / 2,
+		width: dw,
+		height: dh
+	});
+}
+
+/**
+ * Draw one board into its slot on the page, with the same layout as the canvas renderer
+ */
+async function drawBoard(
+	page: PDFPage,
+	renderer: DocumentRenderer,
+	board: BingoBoard,
+	boardNumber: number,
+	slot: BoardSlot,
+	options: { branding?: CardBranding; qrUrl?: string; theme: CardTheme }
+) {
+	const { branding, qrUrl, theme } = options;
+	const gridSize = board.cells.length;
+	const {
+		brandingGap,
+		headerHeight,
+		footerHeight,
+		footerFontSize,
+		qrSide,
+		gridLeft,
+		gridTop,
+		gridSide,
+		cellSize
+	} = getCardLayout(slot.width, slot.height, gridSize, { branding, qrCode: !!qrUrl });
+
+	// Card coordinates (top-left origin within the slot) to PDF coordinates
+	const pageHeight = page.getHeight();
+	const toX = (x: number) => slot.x + x;
+	const toY = (y: number) => pageHeight - slot.y - y;
+	const fit = (text: string, width: number, height: number, maxLines: number, base: number) =>
+		fitTextToBox(text, width, height, maxLines, base, renderer.measure, MIN_FONT_SIZE);
+
+	const { palette } = theme;
+	const weight = TEXT_WEIGHTS[theme.textWeight];
+	const cellInset = getCellInset(theme, cellSize);
+	const cellSide = cellSize - cellInset * 2;
+	const cellRadius = cellSide * theme.cellRadius;
+	const borderWidth = theme.borderWidth * POINTS_PER_PIXEL;
+	const borderDash = getBorderDash(theme.borderStyle, borderWidth);
+	const textStyle = (fontSize: number) => ({
+		color: palette.text,
+		outline: fontSize * weight.outline
+	});
+
+	// Background
+	page.drawRectangle({
+		x: slot.x,
+		y: pageHeight - slot.y - slot.height,
+		width: slot.width,
+		height: slot.height,
+		color: hexColor(palette.background)
+	});
+
+	for (let i = 0; i < gridSize; i++) {
+		for (let j = 0; j < gridSize; j++) {
+			const x = gridLeft + j * cellSize + cellInset;
+			const y = gridTop + i * cellSize + cellInset;
+			const cell = board.cells[i][j];
+			const fill = hexColor(isFreeCell(cell) ? palette.freeCell : getCellFill(theme, i, j));
+
+			// Cell fill
+			page.drawSvgPath(roundedSquarePath(x, y, cellSide, cellRadius), {
+				x: slot.x,
+				y: pageHeight - slot.y,
+				color: fill
+			});
+
+			if (isFreeCell(cell)) {
+				const content = board.freeSpace;
+				const padding = cellSide * 0.1;
+				const box = cellSide - padding * 2;
+				const image = content?.type === 'image' ? await renderer.embedImage(content.src) : null;
+
+				if (image) {
+					drawImageInBox(page, image, toX(x + padding), toY(y + padding + box), box, box);
+				} else {
+					const label = content?.type === 'image' ? 'FREE' : getFreeSpaceLabel(content);
+					const baseFontSize = content?.type === 'emoji' ? cellSide * 0.5 : cellSide * 0.2;
+					const { lines, fontSize, lineHeight } = fit(label, box, box, 3, baseFontSize);
+					await renderer.drawLines(
+						page,
+						lines,
+						toX(x + cellSide / 2),
+						toY(y + cellSide / 2),
+						fontSize,
+						lineHeight,
+						'center',
+						{ color: palette.freeText }
+					);
+				}
+			} else {
+				const padding = Math.max(3.84, cellSide * 0.04);
+				const innerX = x + padding;
+				const innerY = y + padding;
+				const innerW = cellSide - padding * 2;
+				const innerH = cellSide - padding * 2;
+
+				const image =
+					theme.albumArt !== 'off' && cell.song.image
+						? await renderer.embedImage(cell.song.image)
+						: null;
+
+				// Album art behind the title, under a wash of the cell fill
+				if (image && theme.albumArt === 'background') {
+					clipToRoundedSquare(page, toX(x), toY(y + cellSide), cellSide, cellRadius);
+					const scale = Math.max(cellSide / image.width, cellSide / image.height);
+					const dw = image.width * scale;
+					const dh = image.height * scale;
+					page.drawImage(image, {
+						x: toX(x + (cellSide - dw) / 2),
+						y: toY(y + (cellSide + dh) / 2),
+						width: dw,
+						height: dh
+					});
+					page.drawRectangle({
+						x: toX(x),
+						y: toY(y + cellSide),
+						width: cellSide,
+						height: cellSide,
+						color: fill,
+						opacity: ART_WASH_OPACITY
+					});
+					page.pushOperators(popGraphicsState());
+				}
+
+				// Album art area (top portion) if available
+				const hasArtArea = !!image && theme.albumArt === 'on';
+				const artAreaHeight = hasArtArea ? innerH * 0.45 : 0;
+				const textAreaY = innerY + artAreaHeight + (hasArtArea ? padding * 0.5 : 0);
+				const textAreaHeight = innerY + innerH - textAreaY;
+
+				if (image && hasArtArea) {
+					const targetSize = Math.min(innerW, artAreaHeight);
+					const artX = innerX + (innerW - targetSize) / 2;
+					const artY = innerY + (artAreaHeight - targetSize) / 2;
+					drawImageInBox(page, image, toX(artX), toY(artY + targetSize), targetSize, targetSize);
+				}
+
+				const { lines, fontSize, lineHeight } = fit(
+					cell.song.name,
+					innerW * 0.95,
+					textAreaHeight,
+					4,
+					cellSide * 0.12
+				);
+				await renderer.drawLines(
+					page,
+					lines,
+					toX(x + cellSide / 2),
+					toY(textAreaY + textAreaHeight / 2),
+					fontSize,
+					lineHeight,
+					'center',
+					textStyle(fontSize)
+				);
+			}
+		}
+	}
+
+	// Borders, drawn over the cell fills and background art
+	const borderColor = hexColor(palette.border);
+	if (cellRadius > 0) {
+		for (let i = 0; i < gridSize; i++) {
+			for (let j = 0; j < gridSize; j++) {
+				const x = gridLeft + j * cellSize + cellInset;
+				const y = gridTop + i * cellSize + cellInset;
+				page.drawSvgPath(roundedSquarePath(x, y, cellSide, cellRadius), {
+					x: slot.x,
+					y: pageHeight - slot.y,
+					borderColor,
+					borderWidth,
+					borderDashArray: borderDash
+				});
+			}
+		}
+	} else {
+		// Whole grid lines, so the dashes of neighbouring cells line up
+		const lineCap = theme.borderStyle === 'solid' ? LineCapStyle.Projecting : LineCapStyle.Butt;
+		for (let i = 0; i <= gridSize; i++) {
+			const offset = i * cellSize;
+			const style = { thickness: borderWidth, color: borderColor, dashArray: borderDash, lineCap };
+			page.drawLine({
+				start: { x: toX(gridLeft), y: toY(gridTop + offset) },
+				end: { x: toX(gridLeft + gridSide), y: toY(gridTop + offset) },
+				...style
+			});
+			page.drawLine({
+				start: { x: toX(gridLeft + offset), y: toY(gridTop) },
+				end: { x: toX(gridLeft + offset), y: toY(gridTop + gridSide) },
+				...style
+			});
+		}
+	}
+
+	// Event header: logo on the left, title centred in the remaining width
+	if (headerHeight > 0) {
+		const headerTop = gridTop - brandingGap - headerHeight;
+		const title = branding?.title?.trim();
+		let titleLeft = gridLeft;
+
+		const logo = branding?.logo ? await renderer.embedImage(branding.logo) : null;
+		if (logo) {
+			const scale = Math.min(headerHeight / logo.height, (gridSide * 0.3) / logo.width);
+			const dw = logo.width * scale;
+			const dh = logo.height * scale;
+			const logoX = title ? gridLeft : gridLeft + (gridSide - dw) / 2;
+			const logoY = headerTop + (headerHeight - dh) / 2;
+			page.drawImage(logo, { x: toX(logoX), y: toY(logoY + dh), width: dw, height: dh });
+			if (title) titleLeft = gridLeft + dw + brandingGap;
+		}
+
+		if (title) {
+			const titleWidth = gridLeft + gridSide - titleLeft;
+			const { lines, fontSize, lineHeight } = fit(
+				title,
+				titleWidth,
+				headerHeight,
+				3,
+				headerHeight * 0.5
+			);
+			await renderer.drawLines(
+				page,
+				lines,
+				toX(titleLeft + titleWidth / 2),
+				toY(headerTop + headerHeight / 2),
+				fontSize,
+				lineHeight,
+				'center',
+				{ color: palette.text }
+			);
+		}
+	}
+
+	// Footer row: footer text on the left, serial and board ID on the right, then the QR code
+	if (footerHeight > 0) {
+		const footerTop = gridTop + gridSide + brandingGap;
+		const centerY = toY(footerTop + footerHeight / 2);
+		let footerRight = gridLeft + gridSide;
+
+		if (qrUrl) {
+			const qrTop = footerTop + (footerHeight - qrSide) / 2;
+			drawQrCode(page, qrUrl, toX(footerRight - qrSide), toY(qrTop + qrSide), qrSide);
+			footerRight -= qrSide + brandingGap;
+		}
+
+		if (branding?.serial) {
+			const serial = `${formatBoardSerial(boardNumber)} · ${board.id}`;
+			await renderer.drawLine(page, serial, toX(footerRight), centerY, footerFontSize, 'right', {
+				color: palette.text
+			});
+			footerRight -= renderer.measure(serial, footerFontSize) + brandingGap;
+		}
+
+		const footer = branding?.footer?.trim();
+		if (footer && footerRight > gridLeft) {
+			const { lines, fontSize, lineHeight } = fit(
+				footer,
+				footerRight - gridLeft,
+				footerHeight,
+				qrUrl ? 3 : 2,
+				footerFontSize
+			);
+			await renderer.drawLines(page, lines, toX(gridLeft), centerY, fontSize, lineHeight, 'left', {
+				color: palette.text
+			});
+		}
+	}
+}
+
+/**
+ * Generate all bingo boards as a vector PDF with embedded, subsetted Noto fonts
+ * Takes the same options as the canvas renderer and lays the boards out the same way
+ * @throws Error if the Noto Sans JP font file is missing
+ */
+export async function generateBingoBoardsVectorPDF(
+	boards: BingoBoard[],
+	options: CanvasExportOptions = {}
+): Promise<Buffer> {
+	const {
+		layout = DEFAULT_PRINT_LAYOUT,
+		branding,
+		getBoardUrl,
+		theme = DEFAULT_CARD_THEME
+	} = options;
+
+	const pdfDoc = await PDFDocument.create();
+	const renderer = await createDocumentRenderer(pdfDoc, theme.fontFamily);
+
+	const { width: pageWidth, height: pageHeight } = getPageDimensions(layout);
+	const slots = getBoardSlots(layout);
+
+	for (let i = 0; i < boards.length; i += slots.length) {
+		const page = pdfDoc.addPage([pageWidth, pageHeight]);
+
+		for (let s = 0; s < slots.length && i + s < boards.length; s++) {
+			await drawBoard(page, renderer, boards[i + s], i + s + 1, slots[s], {
+				branding,
+				qrUrl: getBoardUrl?.(boards[i + s], i + s + 1),
+				theme
+			});
+		}
+
+		if (layout.cropMarks) {
+			drawCropMarks(page, slots, pageHeight, pageWidth);
+		}
+	}
+
+	const pdfBytes = await pdfDoc.save();
+	return Buffer.from(pdfBytes);
+}
@@ -1,10 +1,27 @@
-import type { BingoBoard } from './bingo';
+import { getFreeSpaceLabel, isFreeCell, type BingoBoard, type BingoCell } from './bingo';
+import {
+	CARD_THEMES,
+	getBorderDash,
+	getCellFill,
+	getCellInset,
+	getFontFamilies,
+	type CardTextWeight,
+	type CardTheme
+} from './card-theme';
+
+// Browser canvases have no outlined text, so weights map to CSS font weights
+const CSS_FONT_WEIGHTS: Record<CardTextWeight, string> = {
+	regular: 'normal',
+	bold: 'bold',
+	heavy: '900'
+};
 
 /**
  * Generate a PNG image of the bingo board
  * Requires HTML2Canvas library (optional enhancement)
+ * Album art is left out whatever the theme: cross-origin covers would taint the canvas
  */
-export async function downloadBingoAsImage(board: BingoBoard, filename: string = 'spotify-bingo.png') {
+export async function downloadBingoAsImage(board: BingoBoard, filename: string = 'spotify-bingo.png', theme: CardTheme = CARD_THEMES.midnight) {
 	try {
 		// This would require html2canvas: https://html2canvas.hertzen.com/
 		// For now, we'll provide a simple implementation using canvas
@@ -17,50 +34,105 @@ export async function downloadBingoAsImage(board: BingoBoard, filename: string =
 		const cellSize = 100;
 		const padding = 20;
 		const size = board.size;
+		const { palette } = theme;
+		const fonts = getFontFamilies(theme, true);
+		const titleWeight = CSS_FONT_WEIGHTS[theme.textWeight];
+		const inset = getCellInset(theme, cellSize);
+		const side = cellSize - inset * 2;
+		const radius = side * theme.cellRadius;
 
 		canvas.width = size * cellSize + padding * 2;
 		canvas.height = size * cellSize + padding * 2;
 
 		// Background
-		ctx.fillStyle = '#0f172a';
+		ctx.fillStyle = palette.background;
 		ctx.fillRect(0, 0, canvas.width, canvas.height);
 
+		// Free space logo, if any
+		let freeSpaceImage: HTMLImageElement | null = null;
+		if (board.freeSpace?.type === 'image') {
+			freeSpaceImage = new Image();
+			freeSpaceImage.src = board.freeSpace.src;
+			await freeSpaceImage.decode().catch(() => (freeSpaceImage = null));
+		}
+
 		// Draw cells
 		for (let row = 0; row < size; row++) {
 			for (let col = 0; col < size; col++) {
 				const cell = board.cells[row][col];
-				const x = padding + col * cellSize;
-				const y = padding + row * cellSize;
+				const x = padding + col * cellSize + inset;
+				const y = padding + row * cellSize + inset;
 
 				// Cell background
-				ctx.fillStyle = cell.marked ? '#10b981' : '#1f2937';
-				ctx.fillRect(x, y, cellSize, cellSize);
-
-				// Cell border
-				ctx.strokeStyle = '#374151';
-				ctx.lineWidth = 2;
-				ctx.strokeRect(x, y, cellSize, cellSize);
+				if (cell.marked) ctx.fillStyle = palette.marked;
+				else ctx.fillStyle = isFreeCell(cell) ? palette.freeCell : getCellFill(theme, row, col);
+				ctx.beginPath();
+				ctx.roundRect(x, y, side, side, radius);
+				ctx.fill();
 
 				// Text
-				ctx.fillStyle = '#ffffff';
-				ctx.font = 'bold 12px Arial';
+				ctx.fillStyle = isFreeCell(cell) ? palette.freeText : palette.text;
+				ctx.font = `${titleWeight} 12px ${fonts}`;
 				ctx.textAlign = 'center';
 
+				if (isFreeCell(cell)) {
+					if (freeSpaceImage) {
+						const scale = Math.min(
+							(side - 16) / freeSpaceImage.width,
+							(side - 16) / freeSpaceImage.height
+						);
+						const dw = freeSpaceImage.width * scale;
+						const dh = freeSpaceImage.height * scale;
+						const dx = x + (side - dw) / 2;
+						const dy = y + (side - dh) / 2;
+						ctx.drawImage(freeSpaceImage, dx, dy, dw, dh);
+					} else {
+						ctx.font = board.freeSpace?.type === 'emoji' ? `40px ${fonts}` : `bold 16px ${fonts}`;
+						ctx.textBaseline = 'middle';
+						const label = getFreeSpaceLabel(board.freeSpace).substring(0, 12);
+						ctx.fillText(label, x + side / 2, y + side / 2);
+						ctx.textBaseline = 'alphabetic';
+					}
+					continue;
+				}
+
 				const song = cell.song;
-				const textY = y + cellSize / 2;
+				const textY = y + side / 2;
 
-				ctx.fillText(song.name.substring(0, 12), x + cellSize / 2, textY - 10);
-				ctx.font = '10px Arial';
-				ctx.fillText(song.artist.substring(0, 15), x + cellSize / 2, textY + 10);
+				ctx.fillText(song.name.substring(0, 12), x + side / 2, textY - 10);
+				ctx.font = `10px ${fonts}`;
+				ctx.fillText(song.artist.substring(0, 15), x + side / 2, textY + 10);
 
 				// Checkmark
 				if (cell.marked) {
-					ctx.fillStyle = '#ffffff';
-					ctx.font = 'bold 20px Arial';
-					ctx.fillText('✓', x + cellSize / 2, y + cellSize / 2 + 5);
+					ctx.font = `bold 20px ${fonts}`;
+					ctx.fillText('✓', x + side / 2, y + side / 2 + 5);
+				}
+			}
+		}
+
+		// Cell borders, over the fills
+		ctx.strokeStyle = palette.border;
+		ctx.lineWidth = theme.borderWidth;
+		ctx.setLineDash(getBorderDash(theme.borderStyle, theme.borderWidth));
+		ctx.beginPath();
+		if (radius > 0) {
+			for (let row = 0; row < size; row++) {
+				for (let col = 0; col < size; col++) {
+					ctx.roundRect(padding + col * cellSize + inset, padding + row * cellSize + inset, side, side, radius);
 				}
 			}
+		} else {
+			// Whole grid lines, so the dashes of neighbouring cells line up
+			const gridSide = size * cellSize;
+			for (let i = 0; i <= size; i++) {
+				ctx.moveTo(padding, padding + i * cellSize);
+				ctx.lineTo(padding + gridSide, padding + i * cellSize);
+				ctx.moveTo(padding + i * cellSize, padding);
+				ctx.lineTo(padding + i * cellSize, padding + gridSide);
+			}
 		}
+		ctx.stroke();
 
 		// Download
 		canvas.toBlob((blob) => {
@@ -97,7 +169,7 @@ export function generateShareableText(board: BingoBoard): string {
 export function generatePrintableHTML(board: BingoBoard): string {
 	const rows = board.cells
 		.map((row) =>
-			`<tr>${row.map((cell) => `<td class="bingo-cell">${cell.song.name}<br>${cell.song.artist}</td>`).join('')}</tr>`
+			`<tr>${row.map((cell) => `<td class="bingo-cell">${printableCellContent(board, cell)}</td>`).join('')}</tr>`
 		)
 		.join('');
 
@@ -155,6 +227,24 @@ export function generatePrintableHTML(board: BingoBoard): string {
 	`;
 }
 
+function printableCellContent(board: BingoBoard, cell: BingoCell): string {
+	if (!isFreeCell(cell)) return `${escapeHtml(cell.song.name)}<br>${escapeHtml(cell.song.artist)}`;
+	if (board.freeSpace?.type === 'image') {
+		return `<img src="${escapeHtml(board.freeSpace.src)}" alt="Free space" style="max-width: 100%; max-height: 100%;">`;
+	}
+	return escapeHtml(getFreeSpaceLabel(board.freeSpace));
+}
+
+// Escape text for use in HTML content and quoted attribute values
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
 /**
  * Open printable version in new window
  */
@@ -1,52 +1,489 @@
 import type { PlaylistSongInfo } from '$lib/interfaces/spotify.interface';
+import { groupSongsByArtist } from './playlist';
+import { createRandom, shuffleWith, weightedShuffleWith, type RandomSource } from './random';
+import {
+	DEFAULT_WIN_PATTERN,
+	getPatternMasks,
+	type PatternMask,
+	type WinPattern
+} from './patterns';
 
 export interface BingoCell {
 	id: string;
 	song: PlaylistSongInfo;
 	marked: boolean;
+	/** Free space: always marked and shows the board's free space content instead of a song */
+	free?: boolean;
 }
 
 export interface BingoBoard {
 	id: string;
 	cells: BingoCell[][];
 	size: number;
+	/** What the cells show (default: track titles) */
+	mode?: CellContentMode;
+	/** What free space cells show (default: the text "FREE") */
+	freeSpace?: FreeSpaceContent;
 }
 
+export type FreeSpaceContent =
+	| { type: 'text'; text: string }
+	| { type: 'emoji'; emoji: string }
+	/** Logo image as a URL or data URL */
+	| { type: 'image'; src: string };
+
 /**
- * Shuffle an array using Fisher-Yates algorithm
+ * What bingo cells show: track titles, or artists, albums or release years/decades drawn
+ * from the playlist. A called song marks every cell it matches.
  */
-function shuffleArray<T>(array: T[]): T[] {
-	const shuffled = [...array];
-	for (let i = shuffled.length - 1; i > 0; i--) {
-		const j = Math.floor(Math.random() * (i + 1));
-		[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-	}
-	return shuffled;
+export type CellContentMode = 'title' | 'artist' | 'album' | 'year' | 'decade';
+
+export const CELL_CONTENT_MODES: CellContentMode[] = ['title', 'artist', 'album', 'year', 'decade'];
+
+export interface FreeSpaceOptions {
+	/** Free cell positions as [row, col] (default: the center cell on odd-sized boards) */
+	positions?: [number, number][];
+	content?: FreeSpaceContent;
 }
 
+export interface BoardOptions {
+	/** Seed for the random generator; the same seed and songs always give the same boards */
+	seed?: string;
+	/** Where free spaces go and what they show (used when free spaces are included) */
+	freeSpace?: FreeSpaceOptions;
+	/** What the cells show (default: track titles) */
+	mode?: CellContentMode;
+	/** Maximum number of songs by the same artist on one board */
+	maxPerArtist?: number;
+	/** Place songs by the same artist so they never share a row, column or diagonal */
+	spreadArtists?: boolean;
+}
+
+export const DEFAULT_FREE_SPACE_CONTENT: FreeSpaceContent = { type: 'text', text: 'FREE' };
+
+/**
+ * Resolved cell layout shared by every board in a set
+ */
+interface BoardLayout {
+	size: number;
+	mode: CellContentMode;
+	/** Free cell IDs (`row-col`) */
+	freeCells: Set<string>;
+	freeSpace: FreeSpaceContent;
+	/** Number of cells that need a song */
+	cellCount: number;
+	/** Songs allowed per artist on one board (null when unlimited) */
+	artistLimit: number | null;
+	spreadArtists: boolean;
+}
+
+export interface MultipleBoardOptions extends BoardOptions {
+	/** Reject boards whose song set matches another board in the set */
+	unique?: boolean;
+	/** Maximum number of songs any two boards may share (implies unique) */
+	maxOverlap?: number;
+	/** Prefer the least used songs so every song lands on about the same number of boards */
+	balanced?: boolean;
+}
+
+export interface SongFrequency {
+	song: PlaylistSongInfo;
+	/** Number of boards the song appears on */
+	count: number;
+}
+
+export interface FrequencyReport {
+	/** Every song in the pool, most used first */
+	songs: SongFrequency[];
+	min: number;
+	max: number;
+	average: number;
+}
+
+export interface BoardSet {
+	boards: BingoBoard[];
+	frequency: FrequencyReport;
+}
+
+/** How many candidate boards to try before giving up on the overlap limits */
+const MAX_ATTEMPTS_PER_BOARD = 500;
+
 /**
  * Generate a Spotify bingo board (5x5 by default)
  * @param songs Array of songs to use for bingo
  * @param size Board size (default: 5 for 5x5 board)
- * @param includeFreeSpace Whether to include a free space in the center (5x5 only)
+ * @param includeFreeSpace Whether to include free spaces (center cell unless positions are given)
+ * @param options Generation options (seed, free space positions and content)
  * @returns BingoBoard object with cells
  */
 export function generateSpotifyBingo(
 	songs: PlaylistSongInfo[],
 	size: number = 5,
-	includeFreeSpace: boolean = true
+	includeFreeSpace: boolean = true,
+	options: BoardOptions = {}
+): BingoBoard {
+	const seeded = options.seed !== undefined;
+	const layout = resolveLayout(size, includeFreeSpace, options);
+	const pool = getCellPool(songs, layout.mode);
+	assertArtistLimitFeasible(pool, layout);
+	return buildBoard(pool, layout, createRandom(options.seed), seeded);
+}
+
+/**
+ * Get the default free space positions for a board size (the center cell on odd sizes)
+ */
+export function getDefaultFreeSpacePositions(size: number): [number, number][] {
+	if (size % 2 === 0) return [];
+	const center = Math.floor(size / 2);
+	return [[center, center]];
+}
+
+/**
+ * Check if a cell is a free space
+ */
+export function isFreeCell(cell: BingoCell): boolean {
+	// Boards saved before free spaces were configurable only mark them by song ID
+	return cell.free === true || cell.song.id === 'free';
+}
+
+/**
+ * Get the text shown for a free space (the emoji, the text, or "FREE" for logos)
+ */
+export function getFreeSpaceLabel(content: FreeSpaceContent = DEFAULT_FREE_SPACE_CONTENT): string {
+	switch (content.type) {
+		case 'text':
+			return content.text;
+		case 'emoji':
+			return content.emoji;
+		case 'image':
+			return 'FREE';
+	}
+}
+
+/**
+ * Resolve free space options into the layout every board of a set uses
+ */
+function resolveLayout(
+	size: number,
+	includeFreeSpace: boolean,
+	options: BoardOptions = {}
+): BoardLayout {
+	const positions = includeFreeSpace
+		? (options.freeSpace?.positions ?? getDefaultFreeSpacePositions(size))
+		: [];
+
+	const freeCells = new Set<string>();
+	for (const [row, col] of positions) {
+		const inside = (value: number) => Number.isInteger(value) && value >= 0 && value < size;
+		if (!inside(row) || !inside(col)) {
+			throw new Error(`Free space (${row}, ${col}) is outside the ${size}x${size} board`);
+		}
+		freeCells.add(`${row}-${col}`);
+	}
+
+	if (freeCells.size >= size * size) {
+		throw new Error(`A ${size}x${size} board needs at least one cell that is not a free space`);
+	}
+
+	if (
+		options.maxPerArtist !== undefined &&
+		(!Number.isInteger(options.maxPerArtist) || options.maxPerArtist < 1)
+	) {
+		throw new Error(
+			`Max songs per artist must be a whole number of 1 or more. Got ${options.maxPerArtist}.`
+		);
+	}
+
+	// With spreading, each row can hold only one song per artist
+	const spreadArtists = options.spreadArtists ?? false;
+	const limits = [options.maxPerArtist, spreadArtists ? size : undefined].filter(
+		(limit) => limit !== undefined
+	);
+
+	return {
+		size,
+		mode: options.mode ?? 'title',
+		freeCells,
+		freeSpace: options.freeSpace?.content ?? DEFAULT_FREE_SPACE_CONTENT,
+		cellCount: size * size - freeCells.size,
+		artistLimit: limits.length > 0 ? Math.min(...limits) : null,
+		spreadArtists
+	};
+}
+
+/**
+ * Get the values a board can draw its cells from
+ * In title mode these are the songs themselves; in the other modes every distinct artist,
+ * album, year or decade becomes one entry whose ID is its match key (see getSongMatchKeys)
+ */
+export function getCellPool(
+	songs: PlaylistSongInfo[],
+	mode: CellContentMode = 'title'
+): PlaylistSongInfo[] {
+	if (mode === 'title') return songs;
+
+	const pool = new Map<string, PlaylistSongInfo>();
+	for (const song of songs) {
+		const labels = getSongMatchLabels(song, mode);
+		getSongMatchKeys(song, mode).forEach((key, index) => {
+			if (pool.has(key)) return;
+			pool.set(key, {
+				id: key,
+				name: labels[index],
+				// Albums keep their artist as a subtitle; the other modes show just the value
+				artist: mode === 'album' ? song.artist : '',
+				artists: mode === 'album' ? song.artists : [],
+				album: mode === 'album' ? song.album : '',
+				releaseDate: null,
+				uri: '',
+				link: '',
+				image: mode === 'album' ? song.image : null,
+				durationMs: 0
+			});
+		});
+	}
+	return Array.from(pool.values());
+}
+
+/**
+ * Get the display name of a content mode
+ */
+export function getContentModeName(mode: CellContentMode): string {
+	switch (mode) {
+		case 'title':
+			return 'Song Titles';
+		case 'artist':
+			return 'Artists';
+		case 'album':
+			return 'Albums';
+		case 'year':
+			return 'Release Years';
+		case 'decade':
+			return 'Release Decades';
+	}
+}
+
+/**
+ * Get the keys of the cells a called song matches
+ * Title cells match by track ID; a song with several artists matches each of their cells
+ */
+export function getSongMatchKeys(
+	song: PlaylistSongInfo,
+	mode: CellContentMode = 'title'
+): string[] {
+	if (mode === 'title') return [song.id];
+	return getSongMatchLabels(song, mode).map((label) => `${mode}:${normalizeMatchValue(label)}`);
+}
+
+/**
+ * Get the cell labels a song matches (same order as getSongMatchKeys)
+ */
+function getSongMatchLabels(song: PlaylistSongInfo, mode: CellContentMode): string[] {
+	const year = getReleaseYear(song);
+	switch (mode) {
+		case 'title':
+			return [song.name];
+		case 'artist': {
+			const artists = song.artists.length > 0 ? song.artists : [song.artist];
+			return Array.from(new Set(artists.filter(Boolean)));
+		}
+		case 'album':
+			return song.album ? [song.album] : [];
+		case 'year':
+			return year !== null ? [String(year)] : [];
+		case 'decade':
+			return year !== null ? [`${Math.floor(year / 10) * 10}s`] : [];
+	}
+}
+
+/**
+ * Get the release year of a song, or null when the release date is unknown
+ */
+export function getReleaseYear(song: PlaylistSongInfo): number | null {
+	const year = Number.parseInt(song.releaseDate?.slice(0, 4) ?? '', 10);
+	return Number.isNaN(year) || year <= 0 ? null : year;
+}
+
+function normalizeMatchValue(value: string): string {
+	return value.trim().toLowerCase();
+}
+
+/**
+ * Build a single board drawing from the given random source
+ */
+function buildBoard(
+	songs: PlaylistSongInfo[],
+	layout: BoardLayout,
+	random: RandomSource,
+	seeded: boolean
 ): BingoBoard {
-	const cellCount = size * size - (includeFreeSpace && size === 5 ? 1 : 0);
+	const { cellCount } = layout;
+	assertPoolFillsBoard(songs.length, layout);
+
+	if (layout.artistLimit === null) {
+		// Shuffle and select random songs
+		const shuffled = shuffleCandidates(songs, random);
+		const selectedSongs = shuffled.slice(0, cellCount);
+		return layoutBoard(selectedSongs, layout, random, seeded);
+	}
+
+	for (let attempt = 0; attempt < MAX_ATTEMPTS_PER_BOARD; attempt++) {
+		const selected = pickSongsWithinOverlap(
+			shuffleCandidates(songs, random),
+			layout,
+			0,
+			new Map(),
+			0
+		);
+		const arranged = selected && arrangeSongs(selected, layout, random);
+		if (arranged) return layoutBoard(arranged, layout, random, seeded);
+	}
+	throw new Error(getSpreadFailureMessage(layout));
+}
+
+/**
+ * Shuffle songs into picking order; songs with a higher weight (from weighted playlists)
+ * tend to come first
+ */
+function shuffleCandidates(songs: PlaylistSongInfo[], random: RandomSource): PlaylistSongInfo[] {
+	return songs.some((song) => (song.weight ?? 1) !== 1)
+		? weightedShuffleWith(songs, random, (song) => song.weight ?? 1)
+		: shuffleWith(songs, random);
+}
+
+/**
+ * Check up front that the artist limit leaves enough songs to fill a board
+ */
+function assertArtistLimitFeasible(songs: PlaylistSongInfo[], layout: BoardLayout): void {
+	const { artistLimit, cellCount, size } = layout;
+	if (artistLimit === null) return;
+
+	const groups = Object.entries(groupSongsByArtist(songs));
+	const available = groups.reduce(
+		(sum, [artist, group]) => sum + (artist ? Math.min(group.length, artistLimit) : group.length),
+		0
+	);
+	if (available < cellCount) {
+		const reason = layout.spreadArtists
+			? `at most ${artistLimit} per artist so same-artist songs never share a line`
+			: `at most ${artistLimit} per artist`;
+		throw new Error(
+			`A ${size}x${size} board needs ${cellCount} songs, but with ${reason} only ` +
+				`${available} of the ${songs.length} songs (by ${groups.length} artists) can be used. ` +
+				`Allow more songs per artist, add songs by other artists or use a smaller board.`
+		);
+	}
+}
+
+function getSpreadFailureMessage(layout: BoardLayout): string {
+	return (
+		`Could not place songs by the same artist so they never share a row, column or diagonal ` +
+		`on a ${layout.size}x${layout.size} board after ${MAX_ATTEMPTS_PER_BOARD} attempts. ` +
+		`Lower the songs per artist, add songs by other artists or turn off artist spreading.`
+	);
+}
+
+/**
+ * Order selected songs for layoutBoard so songs by the same artist never share a line
+ * Songs from larger artist groups are placed first with backtracking; the rest fill the gaps
+ * @returns The songs in cell order (row by row, skipping free cells), or null if no
+ * placement was found within the search budget
+ */
+function arrangeSongs(
+	selected: PlaylistSongInfo[],
+	layout: BoardLayout,
+	random: RandomSource
+): PlaylistSongInfo[] | null {
+	if (!layout.spreadArtists) return selected;
+
+	const { size, freeCells } = layout;
+	const slots: string[] = [];
+	for (let row = 0; row < size; row++) {
+		for (let col = 0; col < size; col++) {
+			if (!freeCells.has(`${row}-${col}`)) slots.push(`${row}-${col}`);
+		}
+	}
+
+	// Lines (rows, columns, diagonals) through each slot
+	const linesBySlot = new Map<string, string[]>(slots.map((slot) => [slot, []]));
+	for (const mask of getPatternMasks('lines', size)) {
+		for (const [row, col] of mask.cells) linesBySlot.get(`${row}-${col}`)?.push(mask.id);
+	}
+
+	const groups = Object.entries(groupSongsByArtist(selected));
+	const spread = shuffleWith(
+		groups.filter(([artist, group]) => artist && group.length > 1),
+		random
+	)
+		.sort((a, b) => b[1].length - a[1].length)
+		.flatMap(([, group]) => group);
+	const rest = shuffleWith(
+		selected.filter((song) => !spread.includes(song)),
+		random
+	);
+
+	const placement = new Map<string, PlaylistSongInfo>();
+	const artistsOnLine = new Map<string, Set<string>>();
+	let budget = 2000;
+
+	const place = (index: number): boolean => {
+		if (index === spread.length) return true;
+		if (--budget < 0) return false;
+
+		const song = spread[index];
+		for (const slot of shuffleWith(slots, random)) {
+			if (placement.has(slot)) continue;
+			const lines = linesBySlot.get(slot) ?? [];
+			if (lines.some((line) => artistsOnLine.get(line)?.has(song.artist))) continue;
+
+			placement.set(slot, song);
+			for (const line of lines) {
+				const artists = artistsOnLine.get(line) ?? new Set<string>();
+				artists.add(song.artist);
+				artistsOnLine.set(line, artists);
+			}
+			if (place(index + 1)) return true;
+			placement.delete(slot);
+			for (const line of lines) artistsOnLine.get(line)?.delete(song.artist);
+		}
+		return false;
+	};
+
+	if (!place(0)) return null;
+
+	let restIndex = 0;
+	return slots.map((slot) => placement.get(slot) ?? rest[restIndex++]);
+}
 
-	if (songs.length < cellCount) {
+/**
+ * Throw a clear error when the pool has fewer entries than a board has cells
+ */
+function assertPoolFillsBoard(poolSize: number, layout: BoardLayout): void {
+	const { size, cellCount, mode } = layout;
+	if (poolSize >= cellCount) return;
+
+	if (mode !== 'title') {
 		throw new Error(
-			`Need at least ${cellCount} songs to generate a ${size}x${size} bingo board. Got ${songs.length}.`
+			`Need at least ${cellCount} different ${getContentModeName(mode).toLowerCase()} ` +
+				`to generate a ${size}x${size} bingo board. The playlist has ${poolSize}. ` +
+				`Try a smaller board, more free spaces or another cell content mode.`
 		);
 	}
+	throw new Error(
+		`Need at least ${cellCount} songs to generate a ${size}x${size} bingo board. Got ${poolSize}.`
+	);
+}
 
-	// Shuffle and select random songs
-	const shuffled = shuffleArray(songs);
-	const selectedSongs = shuffled.slice(0, cellCount);
+/**
+ * Lay out already selected songs into a board grid
+ */
+function layoutBoard(
+	selectedSongs: PlaylistSongInfo[],
+	layout: BoardLayout,
+	random: RandomSource,
+	seeded: boolean
+): BingoBoard {
+	const { size, mode, freeCells, freeSpace } = layout;
 
 	// Create 2D grid
 	const cells: BingoCell[][] = [];
@@ -55,12 +492,23 @@ export function generateSpotifyBingo(
 	for (let row = 0; row < size; row++) {
 		cells[row] = [];
 		for (let col = 0; col < size; col++) {
-			// Skip center cell if it's a 5x5 and free space is included
-			if (size === 5 && includeFreeSpace && row === 2 && col === 2) {
+			if (freeCells.has(`${row}-${col}`)) {
 				cells[row][col] = {
 					id: `${row}-${col}`,
-					song: { id: 'free', name: 'FREE', artist: 'SPACE', artists: [], uri: '', link: '', image: null, durationMs: 0 } as PlaylistSongInfo,
-					marked: true
+					song: {
+						id: 'free',
+						name: getFreeSpaceLabel(freeSpace),
+						artist: '',
+						artists: [],
+						album: '',
+						releaseDate: null,
+						uri: '',
+						link: '',
+						image: null,
+						durationMs: 0
+					},
+					marked: true,
+					free: true
 				};
 			} else {
 				cells[row][col] = {
@@ -73,39 +521,283 @@ export function generateSpotifyBingo(
 	}
 
 	return {
-		id: generateBoardId(),
+		id: seeded ? generateBoardId(random) : generateBoardId(),
 		cells,
-		size
+		size,
+		...(mode !== 'title' ? { mode } : {}),
+		...(freeCells.size > 0 ? { freeSpace } : {})
 	};
 }
 
 /**
  * Generate multiple unique bingo boards
+ * All boards draw from one random sequence, so a seed reproduces the whole set
  * @param songs Array of songs to use
  * @param count Number of boards to generate
  * @param size Board size
  * @param includeFreeSpace Whether to include free space
+ * @param options Generation options (seed, uniqueness and overlap limits)
  * @returns Array of BingoBoard objects
  */
 export function generateMultipleBoards(
 	songs: PlaylistSongInfo[],
 	count: number,
 	size: number = 5,
-	includeFreeSpace: boolean = true
+	includeFreeSpace: boolean = true,
+	options: MultipleBoardOptions = {}
 ): BingoBoard[] {
+	const random = createRandom(options.seed);
+	const seeded = options.seed !== undefined;
 	const boards: BingoBoard[] = [];
 
+	const layout = resolveLayout(size, includeFreeSpace, options);
+	const { cellCount } = layout;
+	const pool = getCellPool(songs, layout.mode);
+	assertPoolFillsBoard(pool.length, layout);
+	assertArtistLimitFeasible(pool, layout);
+	const maxOverlap = getMaxOverlap(options, cellCount);
+	if (maxOverlap !== null) {
+		assertOverlapFeasible(pool.length, cellCount, count, maxOverlap, size);
+	}
+
+	// Which earlier boards each song appears on, to track overlap and usage while picking
+	const boardsBySong = new Map<string, number[]>();
+	const usage = (song: PlaylistSongInfo) => boardsBySong.get(song.id)?.length ?? 0;
+
 	for (let i = 0; i < count; i++) {
-		boards.push(generateSpotifyBingo(songs, size, includeFreeSpace));
+		if (maxOverlap === null && !options.balanced) {
+			boards.push(buildBoard(pool, layout, random, seeded));
+			continue;
+		}
+
+		let selected: PlaylistSongInfo[] | null = null;
+		let spreadFailed = false;
+		for (let attempt = 0; attempt < MAX_ATTEMPTS_PER_BOARD && !selected; attempt++) {
+			const candidates = shuffleCandidates(pool, random);
+			if (options.balanced) {
+				// Stable sort keeps the shuffled order among songs used equally often
+				candidates.sort((a, b) => usage(a) - usage(b));
+			}
+			const picked = pickSongsWithinOverlap(
+				candidates,
+				layout,
+				i,
+				boardsBySong,
+				maxOverlap ?? cellCount
+			);
+			selected = picked && arrangeSongs(picked, layout, random);
+			spreadFailed = picked !== null && selected === null;
+		}
+
+		if (!selected && spreadFailed) {
+			throw new Error(getSpreadFailureMessage(layout));
+		}
+		if (!selected) {
+			throw new Error(
+				`Could not generate ${count} boards sharing at most ${maxOverlap} songs ` +
+					`from ${pool.length} songs (stopped at board ${i + 1} of ${count}). ` +
+					`Add more songs, generate fewer boards or allow more shared songs.`
+			);
+		}
+
+		for (const song of selected) {
+			const onBoards = boardsBySong.get(song.id) ?? [];
+			onBoards.push(i);
+			boardsBySong.set(song.id, onBoards);
+		}
+		// Shuffle positions so the least used songs don't always fill the top rows
+		// (spread boards are already placed at random)
+		const positioned =
+			options.balanced && !layout.spreadArtists ? shuffleWith(selected, random) : selected;
+		boards.push(layoutBoard(positioned, layout, random, seeded));
 	}
 
 	return boards;
 }
 
+/**
+ * Generate a board set together with a report of how often each song is used
+ * @param songs Array of songs to use
+ * @param count Number of boards to generate
+ * @param size Board size
+ * @param includeFreeSpace Whether to include free space
+ * @param options Generation options (seed, uniqueness, overlap limits, balancing)
+ * @returns The boards and their song frequency report
+ */
+export function generateBoardSet(
+	songs: PlaylistSongInfo[],
+	count: number,
+	size: number = 5,
+	includeFreeSpace: boolean = true,
+	options: MultipleBoardOptions = {}
+): BoardSet {
+	const boards = generateMultipleBoards(songs, count, size, includeFreeSpace, options);
+	return { boards, frequency: getSongFrequencyReport(boards, getCellPool(songs, options.mode)) };
+}
+
+/**
+ * Count how many boards each song appears on
+ * Songs from the pool that never made it onto a board are reported with a count of 0
+ */
+export function getSongFrequencyReport(
+	boards: BingoBoard[],
+	songs: PlaylistSongInfo[]
+): FrequencyReport {
+	const counts = new Map<string, SongFrequency>();
+	for (const song of songs) {
+		counts.set(song.id, { song, count: 0 });
+	}
+
+	for (const board of boards) {
+		for (const row of board.cells) {
+			for (const cell of row) {
+				if (isFreeCell(cell)) continue;
+				const entry = counts.get(cell.song.id) ?? { song: cell.song, count: 0 };
+				entry.count++;
+				counts.set(cell.song.id, entry);
+			}
+		}
+	}
+
+	const entries = Array.from(counts.values()).sort((a, b) => b.count - a.count);
+	const total = entries.reduce((sum, entry) => sum + entry.count, 0);
+
+	return {
+		songs: entries,
+		min: entries.length > 0 ? entries[entries.length - 1].count : 0,
+		max: entries.length > 0 ? entries[0].count : 0,
+		average: entries.length > 0 ? total / entries.length : 0
+	};
+}
+
+/**
+ * Pick songs for a new board in candidate order, skipping any song that would make
+ * the board share more than `maxOverlap` songs with an earlier board or go over the
+ * layout's per-artist limit
+ * @returns The selected songs, or null if this attempt ran out of songs
+ */
+function pickSongsWithinOverlap(
+	candidates: PlaylistSongInfo[],
+	layout: BoardLayout,
+	boardCount: number,
+	boardsBySong: Map<string, number[]>,
+	maxOverlap: number
+): PlaylistSongInfo[] | null {
+	const { cellCount, artistLimit } = layout;
+	const shared = new Array<number>(boardCount).fill(0);
+	const perArtist = new Map<string, number>();
+	const selected: PlaylistSongInfo[] = [];
+
+	for (const song of candidates) {
+		const onBoards = boardsBySong.get(song.id) ?? [];
+		if (onBoards.some((board) => shared[board] >= maxOverlap)) continue;
+		const artistCount = perArtist.get(song.artist) ?? 0;
+		if (artistLimit !== null && song.artist && artistCount >= artistLimit) continue;
+
+		for (const board of onBoards) shared[board]++;
+		perArtist.set(song.artist, artistCount + 1);
+		selected.push(song);
+		if (selected.length === cellCount) return selected;
+	}
+
+	return null;
+}
+
+/**
+ * Resolve the overlap limit from the options (null when boards may repeat)
+ */
+function getMaxOverlap(options: MultipleBoardOptions, cellCount: number): number | null {
+	if (options.maxOverlap !== undefined) {
+		if (!Number.isInteger(options.maxOverlap) || options.maxOverlap < 0) {
+			throw new Error(
+				`Max shared songs must be a whole number of 0 or more. Got ${options.maxOverlap}.`
+			);
+		}
+		return Math.min(options.maxOverlap, cellCount - 1);
+	}
+	// Unique boards may share everything except one song
+	return options.unique ? cellCount - 1 : null;
+}
+
+/**
+ * Throw a descriptive error when the playlist cannot satisfy the overlap limit at all
+ */
+function assertOverlapFeasible(
+	songCount: number,
+	cellCount: number,
+	boardCount: number,
+	maxOverlap: number,
+	size: number
+): void {
+	if (boardCount < 2 || songCount < cellCount) return;
+
+	// Two boards drawn from the same pool always share at least this many songs
+	const minShared = 2 * cellCount - songCount;
+	if (minShared > maxOverlap) {
+		throw new Error(
+			`Playlist is too small for these limits: with ${songCount} songs, any two ${size}x${size} boards ` +
+				`share at least ${minShared} songs, but at most ${maxOverlap} are allowed. ` +
+				`Need at least ${2 * cellCount - maxOverlap} songs.`
+		);
+	}
+
+	const combinations = countCombinations(songCount, cellCount, boardCount);
+	if (combinations < boardCount) {
+		throw new Error(
+			`Playlist is too small for these limits: ${songCount} songs only allow ${combinations} different ` +
+				`${size}x${size} boards, but ${boardCount} unique boards were requested.`
+		);
+	}
+}
+
+/**
+ * Number of ways to choose k songs from n, capped at `cap` to avoid overflow
+ */
+function countCombinations(n: number, k: number, cap: number): number {
+	const m = Math.min(k, n - k);
+	let result = 1;
+	for (let i = 1; i <= m; i++) {
+		result = (result * (n - m + i)) / i;
+		if (result >= cap) return cap;
+	}
+	return Math.round(result);
+}
+
+/**
+ * Get the IDs of all songs on a board (excluding the free space)
+ */
+export function getBoardSongIds(board: BingoBoard): Set<string> {
+	const ids = new Set<string>();
+	for (const row of board.cells) {
+		for (const cell of row) {
+			if (!isFreeCell(cell)) ids.add(cell.song.id);
+		}
+	}
+	return ids;
+}
+
+/**
+ * Count songs two boards have in common
+ */
+export function countSharedSongs(a: BingoBoard, b: BingoBoard): number {
+	const idsB = getBoardSongIds(b);
+	let shared = 0;
+	for (const id of getBoardSongIds(a)) {
+		if (idsB.has(id)) shared++;
+	}
+	return shared;
+}
+
 /**
  * Generate a unique board ID
+ * When a seeded random source is passed the ID is derived from it, so it is reproducible
  */
-export function generateBoardId(): string {
+export function generateBoardId(random?: RandomSource): string {
+	if (random) {
+		return `bingo-${Math.floor(random() * 36 ** 9)
+			.toString(36)
+			.padStart(9, '0')}`;
+	}
 	return `bingo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
@@ -157,52 +849,155 @@ export function isBlackout(board: BingoBoard): boolean {
 }
 
 /**
- * Check if the player has won
- * Winning conditions: row, column, diagonal, or X pattern
+ * Get a copy of the board with exactly the cells matching the called songs marked
+ * (free spaces stay marked)
  */
-export function hasWon(board: BingoBoard): boolean {
-	// Check rows
-	for (let i = 0; i < board.size; i++) {
-		if (isRowComplete(board, i)) return true;
-	}
-
-	// Check columns
-	for (let i = 0; i < board.size; i++) {
-		if (isColumnComplete(board, i)) return true;
+export function markCalledSongs(
+	board: BingoBoard,
+	calledSongs: Iterable<PlaylistSongInfo>
+): BingoBoard {
+	const called = new Set<string>();
+	for (const song of calledSongs) {
+		for (const key of getSongMatchKeys(song, board.mode)) called.add(key);
 	}
+	return {
+		...board,
+		cells: board.cells.map((row) =>
+			row.map((cell) => ({
+				...cell,
+				marked: isFreeCell(cell) || called.has(cell.song.id)
+			}))
+		)
+	};
+}
 
-	// Check diagonals
-	if (isDiagonalComplete(board, 0)) return true;
-	if (isDiagonalComplete(board, 1)) return true;
+export interface ClaimVerification {
+	/** Whether the board has a win under the pattern with the called songs */
+	valid: boolean;
+	/** The board with exactly the called songs marked */
+	board: BingoBoard;
+	/** Completed lines or shapes of the pattern */
+	completedLines: string[];
+	/** IDs of the cells that make up the win */
+	winningCells: string[];
+	/** 1-based call number at which the board first became a winner (null if it never did) */
+	wonAtCall: number | null;
+	/** The song whose call completed the win */
+	winningSong: PlaylistSongInfo | null;
+}
 
-	return false;
+/**
+ * Format a 1-based board serial the way it is printed and shown (e.g. "#012")
+ */
+export function formatBoardSerial(serial: number): string {
+	return `#${String(serial).padStart(3, '0')}`;
 }
 
 /**
- * Get all completed lines (for displaying winning pattern)
+ * Find a board by its ID or by its 1-based serial number in the set (e.g. "12" or "#012")
  */
-export function getCompletedLines(board: BingoBoard): string[] {
-	const lines: string[] = [];
+export function findBoard(
+	boards: BingoBoard[],
+	reference: string
+): { board: BingoBoard; serial: number } | null {
+	const trimmed = reference.trim();
+	const index = boards.findIndex((board) => board.id === trimmed);
+	if (index !== -1) {
+		return { board: boards[index], serial: index + 1 };
+	}
 
-	// Check rows
-	for (let i = 0; i < board.size; i++) {
-		if (isRowComplete(board, i)) {
-			lines.push(`row-${i}`);
+	const serialMatch = trimmed.match(/^#?(\d+)$/);
+	if (serialMatch) {
+		const serial = Number(serialMatch[1]);
+		if (serial >= 1 && serial <= boards.length) {
+			return { board: boards[serial - 1], serial };
 		}
 	}
 
-	// Check columns
-	for (let i = 0; i < board.size; i++) {
-		if (isColumnComplete(board, i)) {
-			lines.push(`col-${i}`);
+	return null;
+}
+
+/**
+ * Verify a bingo claim against the songs called so far
+ * @param board The claimed board
+ * @param calledSongs The called songs, in call order
+ * @param pattern Active win pattern
+ */
+export function verifyClaim(
+	board: BingoBoard,
+	calledSongs: PlaylistSongInfo[],
+	pattern: WinPattern = DEFAULT_WIN_PATTERN
+): ClaimVerification {
+	const marked = markCalledSongs(board, calledSongs);
+	const valid = hasWon(marked, pattern);
+
+	// Replay the calls to find when the board first became a winner
+	let wonAtCall: number | null = null;
+	if (valid) {
+		for (let call = 0; call <= calledSongs.length; call++) {
+			if (hasWon(markCalledSongs(board, calledSongs.slice(0, call)), pattern)) {
+				wonAtCall = call;
+				break;
+			}
 		}
 	}
 
-	// Check diagonals
-	if (isDiagonalComplete(board, 0)) lines.push('diag-0');
-	if (isDiagonalComplete(board, 1)) lines.push('diag-1');
+	const winningSong = wonAtCall ? calledSongs[wonAtCall - 1] : null;
+
+	return {
+		valid,
+		board: marked,
+		completedLines: getCompletedLines(marked, pattern),
+		winningCells: Array.from(getWinningCells(marked, pattern)),
+		wonAtCall,
+		winningSong
+	};
+}
+
+/**
+ * Check if every cell of a pattern mask is marked
+ */
+export function isMaskComplete(board: BingoBoard, mask: PatternMask): boolean {
+	return mask.cells.every(([row, col]) => board.cells[row][col].marked);
+}
+
+/**
+ * Check if the player has won
+ * @param board The bingo board
+ * @param pattern Active win pattern (default: any row, column, or diagonal)
+ */
+export function hasWon(board: BingoBoard, pattern: WinPattern = DEFAULT_WIN_PATTERN): boolean {
+	return getPatternMasks(pattern, board.size).some((mask) => isMaskComplete(board, mask));
+}
+
+/**
+ * Get all completed lines or shapes of the active pattern (for displaying winning pattern)
+ * For the default pattern these are `row-N`, `col-N`, `diag-0` and `diag-1`
+ */
+export function getCompletedLines(
+	board: BingoBoard,
+	pattern: WinPattern = DEFAULT_WIN_PATTERN
+): string[] {
+	return getPatternMasks(pattern, board.size)
+		.filter((mask) => isMaskComplete(board, mask))
+		.map((mask) => mask.id);
+}
 
-	return lines;
+/**
+ * Get the IDs of all cells that belong to a completed shape of the active pattern
+ */
+export function getWinningCells(
+	board: BingoBoard,
+	pattern: WinPattern = DEFAULT_WIN_PATTERN
+): Set<string> {
+	const cells = new Set<string>();
+	for (const mask of getPatternMasks(pattern, board.size)) {
+		if (!isMaskComplete(board, mask)) continue;
+		for (const [row, col] of mask.cells) {
+			cells.add(board.cells[row][col].id);
+		}
+	}
+	return cells;
 }
 
 /**
@@ -210,7 +1005,13 @@ export function getCompletedLines(board: BingoBoard): string[] {
  */
 export function exportBingoAsCSV(board: BingoBoard): string {
 	const rows = board.cells.map((row) =>
-		row.map((cell) => `"${cell.song.name} - ${cell.song.artist}"`).join(',')
+		row
+			.map((cell) =>
+				isFreeCell(cell)
+					? `"${getFreeSpaceLabel(board.freeSpace)}"`
+					: `"${cell.song.name} - ${cell.song.artist}"`
+			)
+			.join(',')
 	);
 	return rows.join('\n');
 }
@@ -223,17 +1024,13 @@ export function exportBingoAsJSON(board: BingoBoard): string {
 }
 
 /**
- * Reset all marks on the board (except free space on 5x5)
+ * Reset all marks on the board (except free spaces)
  */
 export function resetBoard(board: BingoBoard): void {
 	for (let row = 0; row < board.size; row++) {
 		for (let col = 0; col < board.size; col++) {
-			// Keep the center free space marked on 5x5 boards
-			if (board.size === 5 && row === 2 && col === 2) {
-				board.cells[row][col].marked = true;
-			} else {
-				board.cells[row][col].marked = false;
-			}
+			// Keep free spaces marked
+			board.cells[row][col].marked = isFreeCell(board.cells[row][col]);
 		}
 	}
 }
@@ -0,0 +1,233 @@
+/**
+ * Board set configuration shared by the printer, the export functions and the host page
+ * The same config and playlist always regenerate the same boards
+ */
+
+import * as v from 'valibot';
+import type { PlaylistSongInfo, PlaylistSource } from '$lib/interfaces/spotify.interface';
+import {
+	CELL_CONTENT_MODES,
+	generateBoardSet,
+	type BoardSet,
+	type CellContentMode,
+	type FreeSpaceContent
+} from './bingo';
+import { imageDataUrlSchema, isAlbumArtUrl } from './image-source';
+
+export interface BoardSetConfig {
+	/** Playlists merged into the song pool */
+	playlists: PlaylistSource[];
+	boardCount: number;
+	boardSize: number;
+	includeFreeSpace: boolean;
+	/** Free space cells as [row, col] (default: the center cell on odd-sized boards) */
+	freeSpacePositions?: [number, number][];
+	freeSpaceContent?: FreeSpaceContent;
+	/** What the cells show (default: track titles) */
+	mode?: CellContentMode;
+	maxPerArtist?: number;
+	spreadArtists?: boolean;
+	seed: string;
+	unique?: boolean;
+	maxOverlap?: number;
+	balanced?: boolean;
+}
+
+/**
+ * Validation schema for a playlist link with an optional weight
+ */
+export const playlistSourceSchema = v.object({
+	link: v.pipe(v.string(), v.minLength(1, 'Playlist link cannot be empty')),
+	weight: v.optional(v.pipe(v.number(), v.gtValue(0, 'Playlist weight must be above 0')))
+});
+
+/**
+ * Validation schema for a board set config sent to remote functions
+ */
+export const boardSetConfigSchema = v.object({
+	playlists: v.pipe(
+		v.array(playlistSourceSchema),
+		v.minLength(1, 'At least one playlist link is required')
+	),
+	// The same limits as the printer's inputs
+	boardCount: v.pipe(
+		v.number(),
+		v.integer(),
+		v.minValue(1, 'At least one board is required'),
+		v.maxValue(50, 'At most 50 boards can be generated at once')
+	),
+	boardSize: v.pipe(
+		v.number(),
+		v.integer(),
+		v.minValue(3, 'Boards must be 3×3 to 5×5'),
+		v.maxValue(5, 'Boards must be 3×3 to 5×5')
+	),
+	includeFreeSpace: v.boolean(),
+	freeSpacePositions: v.optional(v.array(v.tuple([v.number(), v.number()]))),
+	freeSpaceContent: v.optional(
+		v.variant('type', [
+			v.object({ type: v.literal('text'), text: v.string() }),
+			v.object({ type: v.literal('emoji'), emoji: v.string() }),
+			v.object({ type: v.literal('image'), src: imageDataUrlSchema })
+		])
+	),
+	mode: v.optional(v.picklist(CELL_CONTENT_MODES)),
+	maxPerArtist: v.optional(v.pipe(v.number(), v.integer(), v.minValue(1))),
+	spreadArtists: v.optional(v.boolean()),
+	seed: v.string(),
+	unique: v.optional(v.boolean()),
+	maxOverlap: v.optional(v.pipe(v.number(), v.integer(), v.minValue(0))),
+	balanced: v.optional(v.boolean())
+});
+
+/**
+ * Validation schema for a song sent along with a config (imported song lists)
+ * Album art other than Spotify's is dropped, as the server only fetches from Spotify
+ */
+export const playlistSongSchema = v.object({
+	id: v.string(),
+	name: v.string(),
+	artist: v.string(),
+	artists: v.array(v.string()),
+	album: v.string(),
+	releaseDate: v.nullable(v.string()),
+	uri: v.string(),
+	link: v.string(),
+	image: v.pipe(
+		v.nullable(v.string()),
+		v.transform((image) => (image && isAlbumArtUrl(image) ? image : null))
+	),
+	durationMs: v.number(),
+	weight: v.optional(v.number()),
+	sources: v.optional(v.array(v.number()))
+});
+
+/**
+ * Validation schema for exports: a config plus the song pool when it can't be refetched
+ * (imported song lists have no playlist link)
+ */
+export const boardSetExportSchema = v.object({
+	...boardSetConfigSchema.entries,
+	playlists: v.array(playlistSourceSchema),
+	songs: v.optional(v.pipe(v.array(playlistSongSchema), v.minLength(1, 'The song list is empty')))
+});
+
+/**
+ * Generate the board set described by a config
+ */
+export function generateBoardSetFromConfig(
+	songs: PlaylistSongInfo[],
+	config: BoardSetConfig
+): BoardSet {
+	return generateBoardSet(songs, config.boardCount, config.boardSize, config.includeFreeSpace, {
+		seed: config.seed,
+		freeSpace: {
+			positions: config.freeSpacePositions,
+			content: config.freeSpaceContent
+		},
+		mode: config.mode,
+		maxPerArtist: config.maxPerArtist,
+		spreadArtists: config.spreadArtists,
+		unique: config.unique,
+		maxOverlap: config.maxOverlap,
+		balanced: config.balanced
+	});
+}
+
+/**
+ * Encode a config as URL search params (for links to the host page)
+ */
+export function boardSetConfigToSearchParams(config: BoardSetConfig): URLSearchParams {
+	const params = new URLSearchParams();
+	for (const source of config.playlists) params.append('playlist', source.link);
+	if (config.playlists.some((source) => (source.weight ?? 1) !== 1)) {
+		params.set('weights', config.playlists.map((source) => source.weight ?? 1).join(','));
+	}
+	params.set('count', String(config.boardCount));
+	params.set('size', String(config.boardSize));
+	params.set('free', config.includeFreeSpace ? '1' : '0');
+	params.set('seed', config.seed);
+	if (config.freeSpacePositions) {
+		params.set('freepos', config.freeSpacePositions.map(([row, col]) => `${row}-${col}`).join(','));
+	}
+	// Logo images are left out: they can be too large for a URL and don't affect the songs
+	if (config.freeSpaceContent?.type === 'text') {
+		params.set('freetext', config.freeSpaceContent.text);
+	}
+	if (config.freeSpaceContent?.type === 'emoji') {
+		params.set('freeemoji', config.freeSpaceContent.emoji);
+	}
+	if (config.mode && config.mode !== 'title') params.set('mode', config.mode);
+	if (config.maxPerArtist !== undefined) params.set('artistmax', String(config.maxPerArtist));
+	if (config.spreadArtists) params.set('spread', '1');
+	if (config.unique) params.set('unique', '1');
+	if (config.maxOverlap !== undefined) params.set('overlap', String(config.maxOverlap));
+	if (config.balanced) params.set('balanced', '1');
+	return params;
+}
+
+/**
+ * Encode a config and a board serial as URL search params (for links to a single board)
+ */
+export function boardLinkSearchParams(config: BoardSetConfig, serial: number): URLSearchParams {
+	const params = boardSetConfigToSearchParams(config);
+	params.set('board', String(serial));
+	return params;
+}
+
+/**
+ * Decode a config from URL search params
+ * @returns The config, or null if required params are missing or invalid
+ */
+export function boardSetConfigFromSearchParams(params: URLSearchParams): BoardSetConfig | null {
+	const links = params.getAll('playlist').filter(Boolean);
+	const weights = params.get('weights')?.split(',').map(Number) ?? [];
+	const seed = params.get('seed');
+	const boardCount = Number(params.get('count'));
+	const boardSize = Number(params.get('size'));
+
+	if (
+		links.length === 0 ||
+		!seed ||
+		!Number.isInteger(boardCount) ||
+		!Number.isInteger(boardSize)
+	) {
+		return null;
+	}
+
+	const overlap = params.get('overlap');
+	const artistMax = params.get('artistmax');
+	const freePositions = params.get('freepos');
+	const freeText = params.get('freetext');
+	const freeEmoji = params.get('freeemoji');
+	const mode = params.get('mode') as CellContentMode | null;
+
+	return {
+		playlists: links.map((link, index) =>
+			weights[index] > 0 && weights[index] !== 1 ? { link, weight: weights[index] } : { link }
+		),
+		boardCount,
+		boardSize,
+		includeFreeSpace: params.get('free') === '1',
+		freeSpacePositions:
+			freePositions !== null
+				? freePositions
+						.split(',')
+						.filter(Boolean)
+						.map((position) => position.split('-').map(Number) as [number, number])
+				: undefined,
+		freeSpaceContent:
+			freeEmoji !== null
+				? { type: 'emoji', emoji: freeEmoji }
+				: freeText !== null
+					? { type: 'text', text: freeText }
+					: undefined,
+		mode: mode && CELL_CONTENT_MODES.includes(mode) ? mode : undefined,
+		maxPerArtist: artistMax !== null ? Number(artistMax) : undefined,
+		spreadArtists: params.get('spread') === '1',
+		seed,
+		unique: params.get('unique') === '1',
+		maxOverlap: overlap !== null ? Number(overlap) : undefined,
+		balanced: params.get('balanced') === '1'
+	};
+}
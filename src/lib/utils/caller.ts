@@ -0,0 +1,145 @@
+/**
+ * Caller (host) game logic
+ * Draws songs in a shuffled order and keeps the call history for undo and verification
+ */
+
+import type { PlaylistSongInfo } from '$lib/interfaces/spotify.interface';
+import { getSongMatchKeys, isFreeCell, type BingoBoard } from './bingo';
+import { createRandom, shuffleWith } from './random';
+
+export type CallAction = 'called' | 'skipped';
+
+export interface CallRecord {
+	song: PlaylistSongInfo;
+	action: CallAction;
+	/** Timestamp (ms) when the song was called or skipped */
+	at: number;
+}
+
+export interface CallerState {
+	/** Full draw sequence; the next song is always order[history.length] */
+	order: PlaylistSongInfo[];
+	history: CallRecord[];
+}
+
+/**
+ * Get every distinct song that matches at least one board cell (excluding free spaces)
+ * @param boards The board set
+ * @param songs The playlist the boards were drawn from; needed for artist, album and year
+ * boards, whose cells aren't songs themselves
+ */
+export function getSongsInPlay(
+	boards: BingoBoard[],
+	songs?: PlaylistSongInfo[]
+): PlaylistSongInfo[] {
+	const mode = boards[0]?.mode ?? 'title';
+	const cellSongs = new Map<string, PlaylistSongInfo>();
+	for (const board of boards) {
+		for (const row of board.cells) {
+			for (const cell of row) {
+				if (!isFreeCell(cell) && !cellSongs.has(cell.song.id)) {
+					cellSongs.set(cell.song.id, cell.song);
+				}
+			}
+		}
+	}
+
+	if (mode === 'title') return Array.from(cellSongs.values());
+	if (!songs) {
+		throw new Error(`The playlist songs are needed to call a game with ${mode} cells`);
+	}
+
+	const inPlay = new Map<string, PlaylistSongInfo>();
+	for (const song of songs) {
+		if (getSongMatchKeys(song, mode).some((key) => cellSongs.has(key))) {
+			inPlay.set(song.id, song);
+		}
+	}
+	return Array.from(inPlay.values());
+}
+
+/**
+ * Get the seed of a board set's call order, so the host caller starts with the order printed
+ * on the master sheet
+ */
+export function getCallOrderSeed(boardSetSeed: string): string {
+	return `${boardSetSeed}-calls`;
+}
+
+/**
+ * Create a caller with a shuffled call order
+ * @param songs Songs to draw from (usually getSongsInPlay for the board set)
+ * @param seed Optional seed to reproduce the same call order
+ */
+export function createCaller(songs: PlaylistSongInfo[], seed?: string): CallerState {
+	return createCallerFromOrder(shuffleWith(songs, createRandom(seed)));
+}
+
+/**
+ * Create a caller that follows a fixed call order
+ */
+export function createCallerFromOrder(order: PlaylistSongInfo[]): CallerState {
+	return { order: [...order], history: [] };
+}
+
+/**
+ * Get the song that will be drawn next, or null when the order is exhausted
+ */
+export function getUpcomingSong(caller: CallerState): PlaylistSongInfo | null {
+	return caller.order[caller.history.length] ?? null;
+}
+
+/**
+ * Get the most recently called song (skipped songs don't count)
+ */
+export function getCurrentSong(caller: CallerState): PlaylistSongInfo | null {
+	for (let i = caller.history.length - 1; i >= 0; i--) {
+		if (caller.history[i].action === 'called') return caller.history[i].song;
+	}
+	return null;
+}
+
+/**
+ * Get all called songs in call order
+ */
+export function getCalledSongs(caller: CallerState): PlaylistSongInfo[] {
+	return caller.history.filter((record) => record.action === 'called').map((record) => record.song);
+}
+
+/**
+ * Get the number of songs not yet drawn
+ */
+export function getRemainingCount(caller: CallerState): number {
+	return caller.order.length - caller.history.length;
+}
+
+/**
+ * Call the next song in the order
+ * @returns The called song, or null when every song has been drawn
+ */
+export function callNextSong(caller: CallerState): PlaylistSongInfo | null {
+	return advance(caller, 'called');
+}
+
+/**
+ * Skip the next song without calling it (it won't count towards any board)
+ * @returns The skipped song, or null when every song has been drawn
+ */
+export function skipSong(caller: CallerState): PlaylistSongInfo | null {
+	return advance(caller, 'skipped');
+}
+
+/**
+ * Undo the last call or skip, putting the song back at the front of the order
+ * @returns The record that was undone, or null if nothing has been drawn yet
+ */
+export function undoLastCall(caller: CallerState): CallRecord | null {
+	return caller.history.pop() ?? null;
+}
+
+function advance(caller: CallerState, action: CallAction): PlaylistSongInfo | null {
+	const song = getUpcomingSong(caller);
+	if (!song) return null;
+	caller.history.push({ song, action, at: Date.now() });
+	return song;
+}
@@ -0,0 +1,42 @@
+/**
+ * Event branding printed on exported cards: a title, a logo, the board serial and a footer
+ * Everything is optional; a card without branding shows just the grid
+ */
+
+import * as v from 'valibot';
+import { imageDataUrlSchema } from './image-source';
+
+export interface CardBranding {
+	/** Event title shown above the grid */
+	title?: string;
+	/** Logo image (PNG or JPEG data URL) shown above the grid, left of the title */
+	logo?: string;
+	/** Print the board serial and ID below the grid, for checking claims */
+	serial?: boolean;
+	/** Footer line below the grid, such as house rules or a sponsor */
+	footer?: string;
+}
+
+/**
+ * Validation schema for card branding sent to remote functions
+ */
+export const cardBrandingSchema = v.object({
+	title: v.optional(v.pipe(v.string(), v.maxLength(120, 'The event title is too long'))),
+	logo: v.optional(imageDataUrlSchema),
+	serial: v.optional(v.boolean()),
+	footer: v.optional(v.pipe(v.string(), v.maxLength(200, 'The footer is too long')))
+});
+
+/**
+ * Whether branding adds a header (title or logo) above the grid
+ */
+export function hasBrandingHeader(branding: CardBranding | undefined): boolean {
+	return !!(branding?.title?.trim() || branding?.logo);
+}
+
+/**
+ * Whether branding adds a footer row (footer text or serial) below the grid
+ */
+export function hasBrandingFooter(branding: CardBranding | undefined): boolean {
+	return !!(branding?.footer?.trim() || branding?.serial);
+}
@@ -0,0 +1,203 @@
+/**
+ * Card themes: the colours, font, borders and album art style of rendered boards
+ * Exports pick one of the built-in presets; the classic theme is the original black on white
+ */
+
+export type CardThemeId = 'classic' | 'ink-saver' | 'party' | 'high-contrast' | 'midnight';
+
+/** Album art above the song title, left out, or filling the cell behind the title */
+export type CardAlbumArt = 'on' | 'off' | 'background';
+
+export type CardBorderStyle = 'solid' | 'dashed' | 'dotted';
+
+/** Song title weight; bold and heavy text is outlined so it stays dark when printed small */
+export type CardTextWeight = 'regular' | 'bold' | 'heavy';
+
+/** Colours are #rrggbb hex strings */
+/** Fonts themes can use; each has a font file the server loads from the project root */
+export type CardFontFamily = 'NotoSansJP' | 'NotoSerifJP' | 'MPLUSRounded1c';
+
+/** Font family every renderer falls back to; the only font file the server must have */
+export const FALLBACK_FONT_FAMILY: CardFontFamily = 'NotoSansJP';
+
+/** Font file of each family, in the project root */
+export const CARD_FONT_FILES: Record<CardFontFamily, string> = {
+	NotoSansJP: 'NotoSansJP-VariableFont_wght.ttf',
+	NotoSerifJP: 'NotoSerifJP-VariableFont_wght.ttf',
+	MPLUSRounded1c: 'MPLUSRounded1c-Regular.ttf'
+};
+
+export interface CardPalette {
+	/** Card background around the grid */
+	background: string;
+	/** Cell fills, cycled along the diagonals of the grid */
+	cells: string[];
+	/** Free space fill */
+	freeCell: string;
+	/** Cell fill of marked cells (digital boards only) */
+	marked: string;
+	border: string;
+	/** Song titles, the event title and the footer */
+	text: string;
+	/** Free space label */
+	freeText: string;
+}
+
+export interface CardTheme {
+	/** Name shown in the export options */
+	name: string;
+	palette: CardPalette;
+	/** Font of all card text; Noto Sans JP stands in where the font file is missing */
+	fontFamily: CardFontFamily;
+	textWeight: CardTextWeight;
+	/** Border width in pixels at 150 DPI */
+	borderWidth: number;
+	borderStyle: CardBorderStyle;
+	/** Corner radius as a share of the cell size; rounded cells are drawn apart from each other */
+	cellRadius: number;
+	albumArt: CardAlbumArt;
+}
+
+export const CARD_THEMES: Record<CardThemeId, CardTheme> = {
+	classic: {
+		name: 'Classic',
+		palette: {
+			background: '#ffffff',
+			cells: ['#ffffff'],
+			freeCell: '#ffffff',
+			marked: '#10b981',
+			border: '#000000',
+			text: '#000000',
+			freeText: '#000000'
+		},
+		fontFamily: 'NotoSansJP',
+		textWeight: 'bold',
+		borderWidth: 3,
+		borderStyle: 'solid',
+		cellRadius: 0,
+		albumArt: 'on'
+	},
+	'ink-saver': {
+		name: 'Ink saver',
+		palette: {
+			background: '#ffffff',
+			cells: ['#ffffff'],
+			freeCell: '#ffffff',
+			marked: '#d1d5db',
+			border: '#6b7280',
+			text: '#000000',
+			freeText: '#000000'
+		},
+		fontFamily: 'NotoSerifJP',
+		textWeight: 'regular',
+		borderWidth: 1.5,
+		borderStyle: 'dashed',
+		cellRadius: 0,
+		albumArt: 'off'
+	},
+	party: {
+		name: 'Party colors',
+		palette: {
+			background: '#fff7ed',
+			cells: ['#fde68a', '#a7f3d0', '#bfdbfe', '#fbcfe8', '#ddd6fe'],
+			freeCell: '#7c3aed',
+			marked: '#f472b6',
+			border: '#7c3aed',
+			text: '#1f2937',
+			freeText: '#ffffff'
+		},
+		fontFamily: 'MPLUSRounded1c',
+		textWeight: 'bold',
+		borderWidth: 4,
+		borderStyle: 'solid',
+		cellRadius: 0.1,
+		albumArt: 'background'
+	},
+	'high-contrast': {
+		name: 'High contrast',
+		palette: {
+			background: '#ffffff',
+			cells: ['#ffffff'],
+			freeCell: '#000000',
+			marked: '#000000',
+			border: '#000000',
+			text: '#000000',
+			freeText: '#ffffff'
+		},
+		fontFamily: 'NotoSansJP',
+		textWeight: 'heavy',
+		borderWidth: 6,
+		borderStyle: 'solid',
+		cellRadius: 0,
+		albumArt: 'off'
+	},
+	midnight: {
+		name: 'Midnight',
+		palette: {
+			background: '#0f172a',
+			cells: ['#1f2937'],
+			freeCell: '#1f2937',
+			marked: '#10b981',
+			border: '#374151',
+			text: '#ffffff',
+			freeText: '#ffffff'
+		},
+		fontFamily: 'NotoSerifJP',
+		textWeight: 'bold',
+		borderWidth: 2,
+		borderStyle: 'solid',
+		cellRadius: 0,
+		albumArt: 'on'
+	}
+};
+
+export const CARD_THEME_IDS = Object.keys(CARD_THEMES) as CardThemeId[];
+
+export const DEFAULT_CARD_THEME = CARD_THEMES.classic;
+
+/** Font weight and outline width (as a share of the font size) of each text weight */
+export const TEXT_WEIGHTS: Record<CardTextWeight, { fontWeight: number; outline: number }> = {
+	regular: { fontWeight: 400, outline: 0 },
+	bold: { fontWeight: 400, outline: 0.05 },
+	heavy: { fontWeight: 700, outline: 0.05 }
+};
+
+// Gap between rounded cells, as a share of the cell size
+const ROUNDED_CELL_GAP = 0.06;
+
+/** Opacity of the cell fill washed over background album art, so the title stays readable */
+export const ART_WASH_OPACITY = 0.7;
+
+/**
+ * Get the CSS font family list of a theme: its font, then Noto Sans JP for missing fonts and
+ * glyphs, optionally colour emoji, then the generic fallback
+ */
+export function getFontFamilies(theme: CardTheme, emoji = false): string {
+	const families: string[] = Array.from(new Set([theme.fontFamily, FALLBACK_FONT_FAMILY]));
+	if (emoji) families.push('Noto Color Emoji');
+	return `${families.map((family) => `"${family}"`).join(', ')}, sans-serif`;
+}
+
+/**
+ * Get how far each cell is inset from its grid square; only rounded cells are drawn apart
+ */
+export function getCellInset(theme: CardTheme, cellSize: number): number {
+	return theme.cellRadius > 0 ? (cellSize * ROUNDED_CELL_GAP) / 2 : 0;
+}
+
+/**
+ * Get the fill of a song cell; multi-colour palettes run along the diagonals
+ */
+export function getCellFill(theme: CardTheme, row: number, col: number): string {
+	const { cells } = theme.palette;
+	return cells[(row + col) % cells.length];
+}
+
+/**
+ * Get the dash pattern of a border style, scaled to the border width
+ */
+export function getBorderDash(style: CardBorderStyle, width: number): number[] {
+	if (style === 'dashed') return [width * 4, width * 3];
+	if (style === 'dotted') return [width, width * 2];
+	return [];
+}
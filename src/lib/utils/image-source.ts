@@ -0,0 +1,44 @@
+/**
+ * Images named in export requests: uploaded logos travel as PNG or JPEG data URLs, and album
+ * art may only point at Spotify's image host
+ * The server decodes or fetches these itself and refuses anything else, so a request can never
+ * make it read a local file or fetch an arbitrary URL
+ */
+
+import * as v from 'valibot';
+
+/** Image types accepted for uploaded logos */
+export const IMAGE_UPLOAD_TYPES = ['image/png', 'image/jpeg'];
+
+/** Largest uploaded logo, in bytes */
+export const MAX_IMAGE_UPLOAD_BYTES = 2 * 1024 * 1024;
+
+// Base64 length of the largest upload, plus room for the data URL header
+const MAX_IMAGE_DATA_URL_LENGTH = Math.ceil(MAX_IMAGE_UPLOAD_BYTES / 3) * 4 + 32;
+
+const IMAGE_DATA_URL_PATTERN = /^data:image\/(?:png|jpeg);base64,[A-Za-z0-9+/]+={0,2}$/;
+
+const ALBUM_ART_URL_PATTERN = /^https:\/\/i\.scdn\.co\/image\/[A-Za-z0-9]+$/;
+
+/**
+ * Validation schema for an uploaded image: a size-bounded PNG or JPEG data URL
+ */
+export const imageDataUrlSchema = v.pipe(
+	v.string(),
+	v.maxLength(MAX_IMAGE_DATA_URL_LENGTH, 'The image is too large (2 MB at most)'),
+	v.regex(IMAGE_DATA_URL_PATTERN, 'Images must be PNG or JPEG')
+);
+
+/**
+ * Whether a string is a PNG or JPEG data URL within the upload size limit
+ */
+export function isImageDataUrl(src: string): boolean {
+	return src.length <= MAX_IMAGE_DATA_URL_LENGTH && IMAGE_DATA_URL_PATTERN.test(src);
+}
+
+/**
+ * Whether a string is a Spotify album art URL (https://i.scdn.co/image/...)
+ */
+export function isAlbumArtUrl(src: string): boolean {
+	return ALBUM_ART_URL_PATTERN.test(src);
+}
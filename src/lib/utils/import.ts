@@ -0,0 +1,339 @@
+/**
+ * Build a song pool from a CSV file, a PlaylistData JSON file or a pasted text list
+ * Imported pools work like fetched playlists but never need Spotify
+ */
+
+import * as v from 'valibot';
+import type { PlaylistData, PlaylistSongInfo } from '$lib/interfaces/spotify.interface';
+import { isAlbumArtUrl } from './image-source';
+import { getSongDedupeKey } from './playlist';
+
+export type ImportFormat = 'csv' | 'json' | 'text';
+
+// Header names (lowercased, without spaces or punctuation) recognised for each CSV column
+const CSV_COLUMNS = {
+	name: ['songname', 'song', 'title', 'name', 'track', 'trackname', 'songtitle'],
+	artist: ['artist', 'artists', 'artistname', 'artistnames', 'performer'],
+	album: ['album', 'albumname'],
+	releaseDate: ['releasedate', 'albumreleasedate', 'year', 'released'],
+	duration: ['duration', 'length', 'time', 'durationms'],
+	id: ['id', 'trackid', 'spotifyid'],
+	uri: ['uri', 'trackuri', 'spotifyuri'],
+	link: ['link', 'url', 'spotifylink', 'spotifyurl']
+} satisfies Record<string, string[]>;
+
+type CsvColumn = keyof typeof CSV_COLUMNS;
+
+// "Artist - Title" separators (hyphen, en dash, em dash)
+const TEXT_SEPARATOR = /\s+[-–—]\s+/;
+
+// Leading list numbering like "1. ", "01) " or "#3 " (but not band names like "311")
+const LIST_NUMBERING = /^(?:#\d+\s*|\d+[.)]\s+)/;
+
+// Separators between several artists in one field
+const ARTIST_SEPARATOR = /\s*;\s*|\s+(?:feat\.?|ft\.?|featuring)\s+/i;
+
+const UNKNOWN_ARTIST = 'Unknown Artist';
+
+/**
+ * Lenient song shape for JSON imports: only the name is required
+ */
+const importedSongSchema = v.object({
+	id: v.optional(v.string()),
+	name: v.pipe(v.string(), v.trim(), v.minLength(1, 'Every song needs a name')),
+	artist: v.optional(v.string()),
+	artists: v.optional(v.array(v.string())),
+	album: v.optional(v.string()),
+	releaseDate: v.optional(v.nullable(v.string())),
+	uri: v.optional(v.string()),
+	link: v.optional(v.string()),
+	image: v.optional(v.nullable(v.string())),
+	durationMs: v.optional(v.number()),
+	weight: v.optional(v.pipe(v.number(), v.gtValue(0)))
+});
+
+const importedPlaylistSchema = v.object({
+	id: v.optional(v.string()),
+	name: v.optional(v.string()),
+	description: v.optional(v.nullable(v.string())),
+	ownerName: v.optional(v.string()),
+	playlistLink: v.optional(v.string()),
+	songs: v.array(importedSongSchema)
+});
+
+/**
+ * Guess the format of an imported file from its name, falling back to its contents
+ */
+export function detectImportFormat(content: string, filename?: string): ImportFormat {
+	const extension = filename?.split('.').pop()?.toLowerCase();
+	if (extension === 'json') return 'json';
+	if (extension === 'csv' || extension === 'tsv') return 'csv';
+	if (extension === 'txt') return 'text';
+
+	const trimmed = content.trimStart();
+	if (trimmed.startsWith('{') || trimmed.startsWith('[')) return 'json';
+
+	const firstLine = trimmed.split(/\r?\n/, 1)[0] ?? '';
+	const header = splitCsvRows(firstLine)[0] ?? [];
+	return header.some((cell) => findCsvColumn(cell) === 'name') ? 'csv' : 'text';
+}
+
+/**
+ * Import a song list in the given format
+ * @param name Name for the pool (e.g. the file name); JSON files can bring their own
+ */
+export function importPlaylist(content: string, format: ImportFormat, name?: string): PlaylistData {
+	switch (format) {
+		case 'csv':
+			return importCSV(content, name);
+		case 'json':
+			return importJSON(content, name);
+		case 'text':
+			return importText(content, name);
+	}
+}
+
+/**
+ * Import a CSV file with a header row, such as one written by exportAsCSV
+ * Needs a title column (Song Name, Title, Track, ...); artist, album, release date or year,
+ * duration and Spotify ID, URI and link columns are used when present
+ * Tab and semicolon separated files work too
+ */
+export function importCSV(content: string, name?: string): PlaylistData {
+	const rows = splitCsvRows(content).filter((row) => row.some((cell) => cell.trim() !== ''));
+	if (rows.length === 0) {
+		throw new Error('The CSV file is empty');
+	}
+
+	const [header, ...records] = rows;
+	const columns: Partial<Record<CsvColumn, number>> = {};
+	header.forEach((cell, index) => {
+		const column = findCsvColumn(cell);
+		if (column && columns[column] === undefined) columns[column] = index;
+	});
+
+	if (columns.name === undefined) {
+		throw new Error('The CSV file needs a header row with a song title column (e.g. "Song Name")');
+	}
+
+	const cell = (record: string[], column: CsvColumn) => {
+		const index = columns[column];
+		return index !== undefined ? (record[index]?.trim() ?? '') : '';
+	};
+
+	const songs = records
+		.filter((record) => cell(record, 'name'))
+		.map((record) =>
+			createSong({
+				id: cell(record, 'id') || undefined,
+				name: cell(record, 'name'),
+				artist: cell(record, 'artist'),
+				album: cell(record, 'album'),
+				releaseDate: cell(record, 'releaseDate') || null,
+				durationMs: parseDuration(cell(record, 'duration')),
+				uri: cell(record, 'uri'),
+				link: cell(record, 'link')
+			})
+		);
+
+	return createImportedPlaylist(songs, name ?? 'Imported CSV');
+}
+
+/**
+ * Import a JSON file holding a PlaylistData object (as fetched from Spotify) or an array
+ * of songs; only song names are required
+ */
+export function importJSON(content: string, name?: string): PlaylistData {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(content);
+	} catch {
+		throw new Error('The file is not valid JSON');
+	}
+
+	const result = v.safeParse(
+		importedPlaylistSchema,
+		Array.isArray(parsed) ? { songs: parsed } : parsed
+	);
+	if (!result.success) {
+		const path = v.getDotPath(result.issues[0]);
+		throw new Error(
+			`The JSON file is not a playlist or a list of songs: ${result.issues[0].message}${path ? ` at ${path}` : ''}`
+		);
+	}
+
+	const data = result.output;
+	const songs = data.songs.map((song) =>
+		createSong({
+			...song,
+			artist: song.artist ?? song.artists?.join('; ') ?? ''
+		})
+	);
+
+	const playlist = createImportedPlaylist(songs, data.name ?? name ?? 'Imported JSON');
+	return {
+		...playlist,
+		id: data.id ?? playlist.id,
+		description: data.description ?? playlist.description,
+		ownerName: data.ownerName ?? playlist.ownerName,
+		playlistLink: data.playlistLink ?? playlist.playlistLink
+	};
+}
+
+/**
+ * Import a pasted list with one song per line as "Artist - Title"
+ * Lines without a separator are taken as titles; blank lines, lines starting with "//"
+ * and list numbering ("1. ") are ignored
+ */
+export function importText(content: string, name?: string): PlaylistData {
+	const songs = content
+		.split(/\r?\n/)
+		.map((line) => line.trim().replace(LIST_NUMBERING, ''))
+		.filter((line) => line && !line.startsWith('//'))
+		.map((line) => {
+			const separator = line.match(TEXT_SEPARATOR);
+			if (!separator || separator.index === undefined) {
+				return createSong({ name: line });
+			}
+			return createSong({
+				artist: line.slice(0, separator.index),
+				name: line.slice(separator.index + separator[0].length)
+			});
+		});
+
+	return createImportedPlaylist(songs, name ?? 'Pasted song list');
+}
+
+/**
+ * Fill in the fields an imported song doesn't have
+ * Songs without an ID get one derived from title and artist, so the same list always
+ * produces the same IDs (and the same boards for a seed)
+ */
+function createSong(
+	song: Partial<Omit<PlaylistSongInfo, 'artists'>> & { name: string; artists?: string[] }
+): PlaylistSongInfo {
+	const name = song.name.trim();
+	const artists =
+		song.artists && song.artists.length > 0
+			? song.artists
+			: (song.artist ?? '')
+					.split(ARTIST_SEPARATOR)
+					.map((artist) => artist.trim())
+					.filter(Boolean);
+	const artist = artists[0] ?? UNKNOWN_ARTIST;
+
+	const info: PlaylistSongInfo = {
+		id: song.id ?? '',
+		name,
+		artist,
+		artists: artists.length > 0 ? artists : [UNKNOWN_ARTIST],
+		album: song.album ?? '',
+		releaseDate: song.releaseDate ?? null,
+		uri: song.uri ?? '',
+		link: song.link ?? '',
+		// Only Spotify album art can be printed, so other images are left out
+		image: song.image && isAlbumArtUrl(song.image) ? song.image : null,
+		durationMs: song.durationMs ?? 0,
+		...(song.weight !== undefined ? { weight: song.weight } : {})
+	};
+	info.id ||= `import:${getSongDedupeKey(info)}`;
+	return info;
+}
+
+/**
+ * Wrap imported songs in a PlaylistData, dropping repeated songs
+ */
+function createImportedPlaylist(songs: PlaylistSongInfo[], name: string): PlaylistData {
+	const seen = new Set<string>();
+	const unique = songs.filter((song) => {
+		const key = getSongDedupeKey(song);
+		if (seen.has(song.id) || seen.has(key)) return false;
+		seen.add(song.id);
+		seen.add(key);
+		return true;
+	});
+
+	if (unique.length === 0) {
+		throw new Error('No songs found in the imported list');
+	}
+
+	return {
+		id: `import:${name}`,
+		name,
+		description: null,
+		ownerName: 'Imported',
+		totalTracks: unique.length,
+		playlistLink: '',
+		songs: unique,
+		imported: true
+	};
+}
+
+function findCsvColumn(header: string): CsvColumn | null {
+	const normalized = header.toLowerCase().replace(/[^a-z]/g, '');
+	for (const [column, names] of Object.entries(CSV_COLUMNS)) {
+		if (names.includes(normalized)) return column as CsvColumn;
+	}
+	return null;
+}
+
+/**
+ * Split CSV text into rows of cells (RFC 4180 quoting)
+ * The delimiter (comma, tab or semicolon) is the one that appears most in the first line
+ */
+function splitCsvRows(content: string): string[][] {
+	const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+	const delimiter = [',', '\t', ';'].reduce((best, candidate) =>
+		firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+	);
+
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let cell = '';
+	let quoted = false;
+
+	for (let i = 0; i < content.length; i++) {
+		const char = content[i];
+		if (quoted) {
+			if (char === '"' && content[i + 1] === '"') {
+				cell += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				cell += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === delimiter) {
+			row.push(cell);
+			cell = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && content[i + 1] === '\n') i++;
+			row.push(cell);
+			rows.push(row);
+			row = [];
+			cell = '';
+		} else {
+			cell += char;
+		}
+	}
+
+	if (cell !== '' || row.length > 0) {
+		row.push(cell);
+		rows.push(row);
+	}
+	return rows;
+}
+
+/**
+ * Parse a duration written as "M:SS", "H:MM:SS" or a number of milliseconds
+ */
+function parseDuration(value: string): number {
+	if (!value) return 0;
+	if (/^\d+$/.test(value)) return Number(value);
+
+	const parts = value.split(':').map(Number);
+	if (parts.some((part) => !Number.isFinite(part))) return 0;
+	return parts.reduce((total, part) => total * 60 + part, 0) * 1000;
+}
@@ -0,0 +1,63 @@
+/**
+ * Host master sheet: every song in play, with the boards it appears on
+ * Lets the host of a paper game tick off calls and check claims from one list
+ */
+
+import type { PlaylistSongInfo } from '$lib/interfaces/spotify.interface';
+import { getSongMatchKeys, isFreeCell, type BingoBoard } from './bingo';
+import { createCaller, getSongsInPlay } from './caller';
+
+export type MasterSheetOrder = 'call' | 'alphabetical';
+
+export const MASTER_SHEET_ORDERS: MasterSheetOrder[] = ['call', 'alphabetical'];
+
+export interface MasterSheetEntry {
+	song: PlaylistSongInfo;
+	/** 1-based serials of the boards with a cell this song matches, in ascending order */
+	serials: number[];
+}
+
+export interface MasterSheetOptions {
+	order: MasterSheetOrder;
+	/** Seed for a reproducible call order */
+	seed?: string;
+	/** The playlist the boards were drawn from (needed for artist, album and year boards) */
+	songs?: PlaylistSongInfo[];
+}
+
+/**
+ * Build the master sheet for a board set
+ * In call order the songs are shuffled the same way the caller shuffles them, so the host
+ * can simply play down the list
+ */
+export function getMasterSheet(
+	boards: BingoBoard[],
+	options: MasterSheetOptions
+): MasterSheetEntry[] {
+	const inPlay = getSongsInPlay(boards, options.songs);
+	const songs =
+		options.order === 'call'
+			? createCaller(inPlay, options.seed).order
+			: [...inPlay].sort(
+					(a, b) => a.name.localeCompare(b.name) || a.artist.localeCompare(b.artist)
+				);
+
+	const cellKeysByBoard = boards.map((board) => {
+		const keys = new Set<string>();
+		for (const row of board.cells) {
+			for (const cell of row) {
+				if (!isFreeCell(cell)) keys.add(cell.song.id);
+			}
+		}
+		return keys;
+	});
+
+	return songs.map((song) => {
+		const serials: number[] = [];
+		boards.forEach((board, index) => {
+			const keys = getSongMatchKeys(song, board.mode);
+			if (keys.some((key) => cellKeysByBoard[index].has(key))) serials.push(index + 1);
+		});
+		return { song, serials };
+	});
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import * as v from 'valibot';
+import {
+	createEmptyMask,
+	getPatternIssue,
+	getPatternMasks,
+	winPatternSchema,
+	WIN_PATTERN_PRESETS,
+	type PatternMask
+} from './patterns';
+
+// Cells of a mask as sorted `row-col` keys
+function cellKeys(mask: PatternMask): string[] {
+	return mask.cells.map(([row, col]) => `${row}-${col}`).sort();
+}
+
+describe('getPatternMasks', () => {
+	it('lists distinct, in-bounds cells and no repeated masks for every preset and size', () => {
+		for (const { id } of WIN_PATTERN_PRESETS) {
+			for (let size = 1; size <= 5; size++) {
+				const masks = getPatternMasks(id, size);
+				expect(masks.length, `${id} on ${size}x${size}`).toBeGreaterThan(0);
+				const seen = new Set<string>();
+				for (const mask of masks) {
+					const keys = cellKeys(mask);
+					expect(new Set(keys).size).toBe(keys.length);
+					for (const [row, col] of mask.cells) {
+						expect(row).toBeGreaterThanOrEqual(0);
+						expect(col).toBeGreaterThanOrEqual(0);
+						expect(row).toBeLessThan(size);
+						expect(col).toBeLessThan(size);
+					}
+					expect(seen.has(keys.join(','))).toBe(false);
+					seen.add(keys.join(','));
+				}
+			}
+		}
+	});
+
+	it('gives four corners one cell on a 1x1 board', () => {
+		expect(getPatternMasks('four-corners', 1).map(cellKeys)).toEqual([['0-0']]);
+	});
+
+	it('gives one postage stamp per distinct 2x2 corner block', () => {
+		expect(getPatternMasks('postage-stamp', 1).map(cellKeys)).toEqual([['0-0']]);
+		expect(getPatternMasks('postage-stamp', 2).map(cellKeys)).toEqual([
+			['0-0', '0-1', '1-0', '1-1']
+		]);
+		expect(getPatternMasks('postage-stamp', 5)).toHaveLength(4);
+	});
+
+	it('throws for custom shapes that do not fit the board', () => {
+		const mask = createEmptyMask(5);
+		mask[0][0] = true;
+		expect(getPatternMasks({ name: 'Dot', masks: [mask] }, 5)).toHaveLength(1);
+		expect(() => getPatternMasks({ name: 'Dot', masks: [mask] }, 4)).toThrow('not a 4x4 shape');
+		expect(() => getPatternMasks({ name: 'Empty', masks: [createEmptyMask(5)] }, 5)).toThrow(
+			'no cells'
+		);
+		expect(() => getPatternMasks({ name: 'None', masks: [] }, 5)).toThrow('no shapes');
+	});
+});
+
+describe('getPatternIssue', () => {
+	it('accepts every preset', () => {
+		expect(getPatternIssue('postage-stamp', 1)).toBeNull();
+	});
+});
+
+describe('winPatternSchema', () => {
+	const dot = (size: number) => {
+		const mask = createEmptyMask(size);
+		mask[0][0] = true;
+		return mask;
+	};
+
+	it('accepts presets and well-formed custom shapes', () => {
+		expect(v.is(winPatternSchema, 'x')).toBe(true);
+		expect(v.is(winPatternSchema, { name: 'Dot', masks: [dot(5), dot(5)] })).toBe(true);
+	});
+
+	it('rejects empty, ragged, mixed-size, blank and oversized shapes', () => {
+		const ragged = dot(5);
+		ragged[2] = [false];
+		for (const masks of [
+			[],
+			[ragged],
+			[dot(5), dot(4)],
+			[createEmptyMask(5)],
+			[dot(11)],
+			Array.from({ length: 17 }, () => dot(3))
+		]) {
+			expect(v.is(winPatternSchema, { name: 'Bad', masks })).toBe(false);
+		}
+	});
+});
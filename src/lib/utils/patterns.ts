@@ -0,0 +1,210 @@
+/**
+ * Win patterns for bingo rounds
+ * A pattern resolves to one or more cell masks for a given board size;
+ * a board wins when every cell of any one mask is marked
+ */
+
+import * as v from 'valibot';
+
+export type WinPatternPreset =
+	| 'lines'
+	| 'four-corners'
+	| 'x'
+	| 'postage-stamp'
+	| 'outside-frame'
+	| 'blackout';
+
+export interface CustomWinPattern {
+	name: string;
+	/** Alternative shapes; each is a size x size grid where true cells must be marked */
+	masks: boolean[][][];
+}
+
+export type WinPattern = WinPatternPreset | CustomWinPattern;
+
+export interface PatternMask {
+	id: string;
+	cells: [number, number][];
+}
+
+export const DEFAULT_WIN_PATTERN: WinPattern = 'lines';
+
+export const WIN_PATTERN_PRESETS: { id: WinPatternPreset; label: string; description: string }[] = [
+	{ id: 'lines', label: 'Line', description: 'Complete any row, column, or diagonal' },
+	{ id: 'four-corners', label: 'Four Corners', description: 'Mark all four corner cells' },
+	{ id: 'x', label: 'X', description: 'Complete both diagonals' },
+	{
+		id: 'postage-stamp',
+		label: 'Postage Stamp',
+		description: 'Complete a 2×2 block in any corner'
+	},
+	{ id: 'outside-frame', label: 'Outside Frame', description: 'Mark every cell around the edge' },
+	{ id: 'blackout', label: 'Blackout', description: 'Mark every cell on the board' }
+];
+
+// Largest custom shape, and most alternative shapes, a pattern sent to the server may have
+const MAX_MASK_SIZE = 10;
+const MAX_MASKS = 16;
+
+/**
+ * Validation schema for a win pattern sent to remote functions
+ * Custom shapes must be square, all the same size and have at least one cell; whether they
+ * match the board size is checked against the board (see getPatternIssue)
+ */
+export const winPatternSchema = v.union([
+	v.picklist(WIN_PATTERN_PRESETS.map((preset) => preset.id)),
+	v.object({
+		name: v.pipe(v.string(), v.maxLength(100)),
+		masks: v.pipe(
+			v.array(
+				v.pipe(
+					v.array(v.pipe(v.array(v.boolean()), v.maxLength(MAX_MASK_SIZE))),
+					v.maxLength(MAX_MASK_SIZE)
+				)
+			),
+			v.minLength(1, 'A custom win pattern needs at least one shape'),
+			v.maxLength(MAX_MASKS, `A custom win pattern can have at most ${MAX_MASKS} shapes`),
+			v.check(
+				(masks) =>
+					masks.length === 0 || getPatternIssue({ name: '', masks }, masks[0].length) === null,
+				'Every custom shape must be a square grid of the same size with at least one cell'
+			)
+		)
+	})
+]);
+
+/**
+ * Get the display name of a pattern
+ */
+export function getPatternName(pattern: WinPattern): string {
+	if (typeof pattern !== 'string') return pattern.name;
+	return WIN_PATTERN_PRESETS.find((preset) => preset.id === pattern)?.label ?? pattern;
+}
+
+/**
+ * Get the instructions shown to players for a pattern
+ */
+export function getPatternDescription(pattern: WinPattern): string {
+	if (typeof pattern !== 'string') return `Complete the "${pattern.name}" shape`;
+	return WIN_PATTERN_PRESETS.find((preset) => preset.id === pattern)?.description ?? '';
+}
+
+/**
+ * Get why a pattern can't be used on a board of the given size, or null when it can
+ * Presets fit every board; every shape of a custom pattern must be size x size and have at
+ * least one cell to mark
+ */
+export function getPatternIssue(pattern: WinPattern, size: number): string | null {
+	if (typeof pattern === 'string') return null;
+	if (pattern.masks.length === 0) return `Pattern "${pattern.name}" has no shapes`;
+	for (const mask of pattern.masks) {
+		if (mask.length !== size || mask.some((row) => row.length !== size)) {
+			return `Pattern "${pattern.name}" is not a ${size}x${size} shape and cannot be used on this board`;
+		}
+		if (!mask.some((row) => row.includes(true))) {
+			return `Pattern "${pattern.name}" has a shape with no cells to mark`;
+		}
+	}
+	return null;
+}
+
+/**
+ * Create an empty size x size mask
+ */
+export function createEmptyMask(size: number): boolean[][] {
+	return Array.from({ length: size }, () => Array<boolean>(size).fill(false));
+}
+
+/**
+ * Resolve a pattern into the cell masks that count as a win on a board of the given size
+ * On small boards presets can name the same cell or block more than once; those repeats are
+ * dropped, so every mask lists distinct cells and no two masks are the same
+ * @throws Error if a custom pattern doesn't fit the board (see getPatternIssue)
+ */
+export function getPatternMasks(pattern: WinPattern, size: number): PatternMask[] {
+	const masks = new Map<string, PatternMask>();
+	for (const mask of getRawPatternMasks(pattern, size)) {
+		const cells = Array.from(new Map(mask.cells.map((cell) => [cell.join('-'), cell])).values());
+		const key = cells
+			.map((cell) => cell.join('-'))
+			.sort()
+			.join(',');
+		if (cells.length > 0 && !masks.has(key)) masks.set(key, { id: mask.id, cells });
+	}
+	return Array.from(masks.values());
+}
+
+// The masks of a pattern as its definition names them, repeats included
+function getRawPatternMasks(pattern: WinPattern, size: number): PatternMask[] {
+	const all = (predicate: (row: number, col: number) => boolean): [number, number][] => {
+		const cells: [number, number][] = [];
+		for (let row = 0; row < size; row++) {
+			for (let col = 0; col < size; col++) {
+				if (predicate(row, col)) cells.push([row, col]);
+			}
+		}
+		return cells;
+	};
+	const last = size - 1;
+
+	if (typeof pattern !== 'string') {
+		const issue = getPatternIssue(pattern, size);
+		if (issue) throw new Error(issue);
+		return pattern.masks.map((mask, index) => ({
+			id: `custom-${index}`,
+			cells: all((row, col) => mask[row][col])
+		}));
+	}
+
+	switch (pattern) {
+		case 'lines': {
+			const masks: PatternMask[] = [];
+			for (let i = 0; i < size; i++) {
+				masks.push({ id: `row-${i}`, cells: all((row) => row === i) });
+			}
+			for (let i = 0; i < size; i++) {
+				masks.push({ id: `col-${i}`, cells: all((_, col) => col === i) });
+			}
+			masks.push({ id: 'diag-0', cells: all((row, col) => row === col) });
+			masks.push({ id: 'diag-1', cells: all((row, col) => row + col === last) });
+			return masks;
+		}
+		case 'four-corners':
+			return [
+				{
+					id: 'four-corners',
+					cells: [
+						[0, 0],
+						[0, last],
+						[last, 0],
+						[last, last]
+					]
+				}
+			];
+		case 'x':
+			return [{ id: 'x', cells: all((row, col) => row === col || row + col === last) }];
+		case 'postage-stamp': {
+			// Blocks start no further out than the edge, so a board under 2x2 has just its one cell
+			const far = Math.max(0, last - 1);
+			const corners: [number, number][] = [
+				[0, 0],
+				[0, far],
+				[far, 0],
+				[far, far]
+			];
+			return corners.map(([top, left], index) => ({
+				id: `stamp-${index}`,
+				cells: all((row, col) => row >= top && row <= top + 1 && col >= left && col <= left + 1)
+			}));
+		}
+		case 'outside-frame':
+			return [
+				{
+					id: 'outside-frame',
+					cells: all((row, col) => row === 0 || col === 0 || row === last || col === last)
+				}
+			];
+		case 'blackout':
+			return [{ id: 'blackout', cells: all(() => true) }];
+	}
+}
@@ -0,0 +1,115 @@
+/**
+ * Call-order planning
+ * Searches for a call order where the first bingo lands near a target number of calls
+ * and as few boards as possible win at the same time
+ */
+
+import type { PlaylistSongInfo } from '$lib/interfaces/spotify.interface';
+import type { BingoBoard } from './bingo';
+import { getSongsInPlay } from './caller';
+import type { WinPattern } from './patterns';
+import { createRandom, shuffleWith } from './random';
+import { createWinEvaluator, getCallNumbers } from './simulation';
+
+export interface CallPlanOptions {
+	/** Desired number of calls until the first bingo */
+	targetCalls: number;
+	/** Active win pattern */
+	pattern?: WinPattern;
+	/** Seed for a reproducible plan */
+	seed?: string;
+	/** Number of search steps (default: 3000) */
+	iterations?: number;
+	/** The playlist the boards were drawn from (needed for artist, album and year boards) */
+	songs?: PlaylistSongInfo[];
+}
+
+export interface PlannedWinner {
+	boardId: string;
+	/** 1-based position of the board in the set */
+	serial: number;
+}
+
+export interface CallPlan {
+	/** Songs in the planned call order */
+	order: PlaylistSongInfo[];
+	targetCalls: number;
+	/** Call number at which the first bingo happens with this order */
+	firstWinCall: number;
+	/** Boards that win on that call */
+	winners: PlannedWinner[];
+	/** Boards that win one call later (close calls the host should watch for) */
+	runnersUp: PlannedWinner[];
+}
+
+/** Number of random orders tried before refining the best one */
+const INITIAL_CANDIDATES = 50;
+
+/**
+ * Plan a call order for a board set so the first winner lands near the target
+ * @param boards The board set (as returned by generateMultipleBoards)
+ * @param options Target number of calls, pattern and search settings
+ */
+export function planCallOrder(boards: BingoBoard[], options: CallPlanOptions): CallPlan {
+	const songs = getSongsInPlay(boards, options.songs);
+	const mode = boards[0]?.mode;
+	if (songs.length === 0) {
+		throw new Error('Cannot plan a call order without any songs on the boards');
+	}
+
+	const random = createRandom(options.seed);
+	const evaluate = createWinEvaluator(boards, options.pattern);
+	const target = Math.max(1, Math.min(options.targetCalls, songs.length));
+
+	const score = (order: PlaylistSongInfo[]): number => {
+		const winCalls = evaluate(getCallNumbers(order, mode));
+		const first = Math.min(...winCalls);
+		if (!Number.isFinite(first)) return Infinity;
+		const ties = winCalls.filter((calls) => calls === first).length - 1;
+		const closeCalls = winCalls.filter((calls) => calls === first + 1).length;
+		return Math.abs(first - target) * 10 + ties * 5 + closeCalls;
+	};
+
+	let best = shuffleWith(songs, random);
+	let bestScore = score(best);
+	for (let i = 1; i < INITIAL_CANDIDATES; i++) {
+		const candidate = shuffleWith(songs, random);
+		const candidateScore = score(candidate);
+		if (candidateScore < bestScore) {
+			best = candidate;
+			bestScore = candidateScore;
+		}
+	}
+
+	// Refine by swapping songs around the target window, keeping changes that don't hurt
+	const windowSize = Math.min(songs.length, target * 2 + 5);
+	const iterations = options.iterations ?? 3000;
+	for (let i = 0; i < iterations && bestScore > 0; i++) {
+		const a = Math.floor(random() * windowSize);
+		const b = Math.floor(random() * songs.length);
+		if (a === b) continue;
+
+		const candidate = [...best];
+		[candidate[a], candidate[b]] = [candidate[b], candidate[a]];
+		const candidateScore = score(candidate);
+		if (candidateScore <= bestScore) {
+			best = candidate;
+			bestScore = candidateScore;
+		}
+	}
+
+	const winCalls = evaluate(getCallNumbers(best, mode));
+	const firstWinCall = Math.min(...winCalls);
+	const boardsWinningAt = (call: number): PlannedWinner[] =>
+		boards
+			.map((board, index) => ({ boardId: board.id, serial: index + 1 }))
+			.filter((_, index) => winCalls[index] === call);
+
+	return {
+		order: best,
+		targetCalls: target,
+		firstWinCall,
+		winners: boardsWinningAt(firstWinCall),
+		runnersUp: boardsWinningAt(firstWinCall + 1)
+	};
+}
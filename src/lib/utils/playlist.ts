@@ -2,7 +2,12 @@
  * Utility functions for working with Spotify playlist data
  */
 
-import type { PlaylistData, PlaylistSongInfo } from '$lib/interfaces/spotify.interface';
+import type {
+	PlaylistData,
+	PlaylistSongInfo,
+	PlaylistSource,
+	PlaylistSourceSummary
+} from '$lib/interfaces/spotify.interface';
 
 /**
  * Format duration from milliseconds to MM:SS format
@@ -26,10 +31,19 @@ export function getSongNames(playlist: PlaylistData): string[] {
  */
 export function getSongsByArtist(
 	playlist: PlaylistData
+): Record<string, PlaylistSongInfo[]> {
+	return groupSongsByArtist(playlist.songs);
+}
+
+/**
+ * Group a list of songs by their (primary) artist
+ */
+export function groupSongsByArtist(
+	songs: PlaylistSongInfo[]
 ): Record<string, PlaylistSongInfo[]> {
 	const grouped: Record<string, PlaylistSongInfo[]> = {};
 
-	for (const song of playlist.songs) {
+	for (const song of songs) {
 		if (!grouped[song.artist]) {
 			grouped[song.artist] = [];
 		}
@@ -166,3 +180,101 @@ export function getTotalDuration(playlist: PlaylistData): {
 		formatted
 	};
 }
+
+/** Title suffixes and bracketed parts that mark another version of the same song */
+const VERSION_MARKER =
+	/\b(remaster(ed)?|single|radio|edit|version|mono|stereo|live|acoustic|deluxe|anniversary|bonus|feat|ft|with)\b/;
+
+/**
+ * Normalize text for duplicate detection: lowercase, no accents or punctuation
+ */
+function normalizeForMatching(text: string): string {
+	return text
+		.normalize('NFKD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}]+/gu, ' ')
+		.trim();
+}
+
+/**
+ * Normalize a song title so versions of the same song compare equal
+ * Drops suffixes like " - 2011 Remaster" and parts like "(Single Version)" or "(feat. X)"
+ */
+export function normalizeSongTitle(title: string): string {
+	const stripped = title
+		.toLowerCase()
+		.replace(/\s[-–—]\s.*$/, (suffix) => (VERSION_MARKER.test(suffix) ? '' : suffix))
+		.replace(/[([][^)\]]*[)\]]/g, (part) => (VERSION_MARKER.test(part) ? '' : part));
+	return normalizeForMatching(stripped) || normalizeForMatching(title);
+}
+
+/**
+ * Get the key two songs share when they are the same song by the same artist
+ */
+export function getSongDedupeKey(song: PlaylistSongInfo): string {
+	return `${normalizeSongTitle(song.name)}|${normalizeForMatching(song.artist)}`;
+}
+
+/**
+ * Merge several playlists into one song pool
+ * Songs are de-duplicated by track ID and by normalized title + artist; each merged song
+ * records which playlists it came from and keeps the highest weight among them
+ * @param playlists Fetched playlists with the source (link and weight) they were fetched from
+ */
+export function mergePlaylists(
+	playlists: { playlist: PlaylistData; source: PlaylistSource }[]
+): PlaylistData {
+	if (playlists.length === 0) {
+		throw new Error('Cannot merge an empty list of playlists');
+	}
+
+	const sources: PlaylistSourceSummary[] = playlists.map(({ playlist, source }) => ({
+		id: playlist.id,
+		name: playlist.name,
+		link: source.link,
+		weight: source.weight ?? 1,
+		trackCount: playlist.songs.length
+	}));
+
+	const songs: PlaylistSongInfo[] = [];
+	const byId = new Map<string, PlaylistSongInfo>();
+	const byKey = new Map<string, PlaylistSongInfo>();
+
+	playlists.forEach(({ playlist, source }, sourceIndex) => {
+		const weight = source.weight ?? 1;
+		for (const song of playlist.songs) {
+			const key = getSongDedupeKey(song);
+			const existing = byId.get(song.id) ?? byKey.get(key);
+			if (existing) {
+				if (!existing.sources?.includes(sourceIndex)) existing.sources?.push(sourceIndex);
+				if (weight > (existing.weight ?? 1)) existing.weight = weight;
+				byId.set(song.id, existing);
+				continue;
+			}
+
+			const merged: PlaylistSongInfo = {
+				...song,
+				...(weight !== 1 ? { weight } : {}),
+				sources: [sourceIndex]
+			};
+			byId.set(song.id, merged);
+			byKey.set(key, merged);
+			songs.push(merged);
+		}
+	});
+
+	const [first] = playlists.map(({ playlist }) => playlist);
+	const single = playlists.length === 1;
+
+	return {
+		id: single ? first.id : sources.map((source) => source.id).join('+'),
+		name: single ? first.name : sources.map((source) => source.name).join(' + '),
+		description: single ? first.description : null,
+		ownerName: Array.from(new Set(playlists.map(({ playlist }) => playlist.ownerName))).join(', '),
+		totalTracks: single ? first.totalTracks : songs.length,
+		playlistLink: first.playlistLink,
+		songs,
+		sources
+	};
+}
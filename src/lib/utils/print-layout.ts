@@ -0,0 +1,125 @@
+/**
+ * Page layout for printed board exports: page size, orientation, boards per page,
+ * margins and crop marks
+ * All lengths are in PDF points (1/72 inch) unless the name says otherwise
+ */
+
+import * as v from 'valibot';
+
+export type PageSize = 'A4' | 'Letter' | 'A5';
+export type PageOrientation = 'portrait' | 'landscape';
+export type BoardsPerPage = 1 | 2 | 4 | 6;
+/** How the PDF export draws boards: as full-card images, or as vector text and lines */
+export type PdfOutputMode = 'image' | 'vector';
+
+export const PAGE_SIZES: PageSize[] = ['A4', 'Letter', 'A5'];
+export const BOARDS_PER_PAGE_OPTIONS: BoardsPerPage[] = [1, 2, 4, 6];
+export const PDF_OUTPUT_MODES: PdfOutputMode[] = ['image', 'vector'];
+
+export interface PrintLayoutOptions {
+	pageSize: PageSize;
+	orientation: PageOrientation;
+	boardsPerPage: BoardsPerPage;
+	/** Space between the page edge and the boards, in millimetres */
+	marginMm: number;
+	/** Space between neighbouring boards, in millimetres */
+	gutterMm: number;
+	/** Draw crop marks in the page margin where the boards should be cut */
+	cropMarks: boolean;
+}
+
+/** A board's place on the page (top-left origin, in points) */
+export interface BoardSlot {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+export const POINTS_PER_MM = 72 / 25.4;
+
+// Portrait width and height in points
+const PAGE_DIMENSIONS: Record<PageSize, [number, number]> = {
+	A4: [595.28, 841.89],
+	Letter: [612, 792],
+	A5: [419.53, 595.28]
+};
+
+/** Two boards side by side on A4 landscape, as the PDF export always used to print */
+export const DEFAULT_PRINT_LAYOUT: PrintLayoutOptions = {
+	pageSize: 'A4',
+	orientation: 'landscape',
+	boardsPerPage: 2,
+	marginMm: 4.2,
+	gutterMm: 4.2,
+	cropMarks: false
+};
+
+/**
+ * Validation schema for print layout options sent to remote functions
+ */
+export const printLayoutSchema = v.object({
+	pageSize: v.picklist(PAGE_SIZES),
+	orientation: v.picklist(['portrait', 'landscape']),
+	boardsPerPage: v.picklist(BOARDS_PER_PAGE_OPTIONS),
+	marginMm: v.pipe(v.number(), v.minValue(0), v.maxValue(50)),
+	gutterMm: v.pipe(v.number(), v.minValue(0), v.maxValue(50)),
+	cropMarks: v.boolean()
+});
+
+/**
+ * Get the page width and height in points for a layout
+ */
+export function getPageDimensions(layout: PrintLayoutOptions): { width: number; height: number } {
+	const [width, height] = PAGE_DIMENSIONS[layout.pageSize];
+	return layout.orientation === 'landscape' ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Get the columns and rows of boards on a page
+ * Boards are laid out along the long side: 2 per page sit side by side in landscape and
+ * stacked in portrait, 6 per page are 3×2 in landscape and 2×3 in portrait
+ */
+export function getPageGrid(layout: PrintLayoutOptions): { columns: number; rows: number } {
+	const landscape = layout.orientation === 'landscape';
+	switch (layout.boardsPerPage) {
+		case 1:
+			return { columns: 1, rows: 1 };
+		case 2:
+			return landscape ? { columns: 2, rows: 1 } : { columns: 1, rows: 2 };
+		case 4:
+			return { columns: 2, rows: 2 };
+		case 6:
+			return landscape ? { columns: 3, rows: 2 } : { columns: 2, rows: 3 };
+	}
+}
+
+/**
+ * Get the slot of every board on a page, row by row
+ * @throws Error if the margins and gaps leave no room for the boards
+ */
+export function getBoardSlots(layout: PrintLayoutOptions): BoardSlot[] {
+	const { width, height } = getPageDimensions(layout);
+	const { columns, rows } = getPageGrid(layout);
+	const margin = layout.marginMm * POINTS_PER_MM;
+	const gutter = layout.gutterMm * POINTS_PER_MM;
+
+	const slotWidth = (width - margin * 2 - gutter * (columns - 1)) / columns;
+	const slotHeight = (height - margin * 2 - gutter * (rows - 1)) / rows;
+	if (slotWidth < 36 || slotHeight < 36) {
+		throw new Error('The margins and gaps leave no room for the boards. Try smaller values.');
+	}
+
+	const slots: BoardSlot[] = [];
+	for (let row = 0; row < rows; row++) {
+		for (let col = 0; col < columns; col++) {
+			slots.push({
+				x: margin + col * (slotWidth + gutter),
+				y: margin + row * (slotHeight + gutter),
+				width: slotWidth,
+				height: slotHeight
+			});
+		}
+	}
+	return slots;
+}
@@ -0,0 +1,78 @@
+/**
+ * Seeded random number helpers
+ * Lets board generation be replayed exactly from a seed string
+ */
+
+export type RandomSource = () => number;
+
+/**
+ * Hash a seed string into a 32-bit integer (xmur3)
+ */
+function hashSeed(seed: string): number {
+	let h = 1779033703 ^ seed.length;
+	for (let i = 0; i < seed.length; i++) {
+		h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+		h = (h << 13) | (h >>> 19);
+	}
+	h = Math.imul(h ^ (h >>> 16), 2246822507);
+	h = Math.imul(h ^ (h >>> 13), 3266489909);
+	return (h ^= h >>> 16) >>> 0;
+}
+
+/**
+ * Create a random source returning floats in [0, 1)
+ * Uses the mulberry32 PRNG when a seed is given, Math.random otherwise
+ */
+export function createRandom(seed?: string): RandomSource {
+	if (seed === undefined || seed === '') {
+		return Math.random;
+	}
+
+	let state = hashSeed(seed);
+	return () => {
+		state = (state + 0x6d2b79f5) | 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+/**
+ * Generate a short random seed string (e.g. "k3f9x2ab")
+ */
+export function generateSeed(): string {
+	return Math.random().toString(36).slice(2, 10);
+}
+
+/**
+ * Shuffle an array so items with a higher weight tend to come first
+ * (weighted random sampling without replacement, Efraimidis-Spirakis)
+ * Items with a weight of 0 or less always end up last
+ */
+export function weightedShuffleWith<T>(
+	array: T[],
+	random: RandomSource,
+	getWeight: (item: T) => number
+): T[] {
+	return array
+		.map((item) => {
+			const weight = getWeight(item);
+			const key = weight > 0 ? -Math.log(1 - random()) / weight : Infinity;
+			return { item, key };
+		})
+		.sort((a, b) => (a.key === b.key ? 0 : a.key - b.key))
+		.map(({ item }) => item);
+}
+
+/**
+ * Shuffle an array using Fisher-Yates algorithm with the given random source
+ */
+export function shuffleWith<T>(array: T[], random: RandomSource = Math.random): T[] {
+	const shuffled = [...array];
+	for (let i = shuffled.length - 1; i > 0; i--) {
+		const j = Math.floor(random() * (i + 1));
+		[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+	}
+	return shuffled;
+}
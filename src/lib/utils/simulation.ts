@@ -0,0 +1,154 @@
+/**
+ * Monte Carlo simulation of bingo games for a board set
+ * Estimates how many calls (and how much playing time) it takes until the first bingo
+ */
+
+import type { PlaylistSongInfo } from '$lib/interfaces/spotify.interface';
+import { getSongMatchKeys, isFreeCell, type BingoBoard, type CellContentMode } from './bingo';
+import { getSongsInPlay } from './caller';
+import { DEFAULT_WIN_PATTERN, getPatternMasks, type WinPattern } from './patterns';
+import { createRandom, shuffleWith } from './random';
+
+export interface SimulationOptions {
+	/** Number of simulated games (default: 1000) */
+	trials?: number;
+	/** Seed for reproducible results */
+	seed?: string;
+	/** Active win pattern */
+	pattern?: WinPattern;
+	/** Seconds each song is played before the next call (default: the full track) */
+	secondsPerSong?: number;
+	/** The playlist the boards were drawn from (needed for artist, album and year boards) */
+	songs?: PlaylistSongInfo[];
+}
+
+export interface SimulationResult {
+	trials: number;
+	songsInPlay: number;
+	/** Histogram of calls needed until the first winner, sorted by calls */
+	callsToFirstWin: { calls: number; count: number }[];
+	mean: number;
+	median: number;
+	/** 10th and 90th percentile of calls to the first winner */
+	p10: number;
+	p90: number;
+	min: number;
+	max: number;
+	/** Average number of boards that win on the same call as the first winner */
+	expectedWinners: number;
+	/** Average playing time until the first winner */
+	expectedDurationMs: number;
+}
+
+/**
+ * Build a function that returns, for a given call order, the call number at which each
+ * board first wins (0 if a board wins without any calls, Infinity if it never wins)
+ * The call order is given as cell match keys mapped to call numbers (see getCallNumbers)
+ * @param boards The board set
+ * @param pattern Active win pattern
+ */
+export function createWinEvaluator(
+	boards: BingoBoard[],
+	pattern: WinPattern = DEFAULT_WIN_PATTERN
+): (callNumberBySong: Map<string, number>) => number[] {
+	// Cell keys per mask per board; free cells are left out since they start marked
+	const boardMasks = boards.map((board) =>
+		getPatternMasks(pattern, board.size).map((mask) =>
+			mask.cells
+				.map(([row, col]) => board.cells[row][col])
+				.filter((cell) => !isFreeCell(cell))
+				.map((cell) => cell.song.id)
+		)
+	);
+
+	return (callNumberBySong) =>
+		boardMasks.map((masks) => {
+			let best = Infinity;
+			for (const songIds of masks) {
+				let completedAt = 0;
+				for (const songId of songIds) {
+					completedAt = Math.max(completedAt, callNumberBySong.get(songId) ?? Infinity);
+					if (completedAt >= best) break;
+				}
+				best = Math.min(best, completedAt);
+			}
+			return best;
+		});
+}
+
+/**
+ * Map each cell key to the 1-based number of the first call that matches it
+ * In title mode the keys are simply the song IDs
+ */
+export function getCallNumbers(
+	order: PlaylistSongInfo[],
+	mode: CellContentMode = 'title'
+): Map<string, number> {
+	const callNumbers = new Map<string, number>();
+	order.forEach((song, index) => {
+		for (const key of getSongMatchKeys(song, mode)) {
+			if (!callNumbers.has(key)) callNumbers.set(key, index + 1);
+		}
+	});
+	return callNumbers;
+}
+
+/**
+ * Simulate random games on a board set and summarize how long they take
+ * Every game draws from the songs in play, like the host caller does
+ */
+export function simulateGame(
+	boards: BingoBoard[],
+	options: SimulationOptions = {}
+): SimulationResult {
+	const trials = options.trials ?? 1000;
+	const random = createRandom(options.seed);
+	const songs = getSongsInPlay(boards, options.songs);
+	const evaluate = createWinEvaluator(boards, options.pattern);
+
+	const callsPerTrial: number[] = [];
+	let totalWinners = 0;
+	let totalDurationMs = 0;
+
+	for (let trial = 0; trial < trials; trial++) {
+		const order = shuffleWith(songs, random);
+		const winCalls = evaluate(getCallNumbers(order, boards[0]?.mode));
+		const firstWin = Math.min(...winCalls);
+		if (!Number.isFinite(firstWin)) continue;
+
+		callsPerTrial.push(firstWin);
+		totalWinners += winCalls.filter((calls) => calls === firstWin).length;
+		totalDurationMs += order
+			.slice(0, firstWin)
+			.reduce(
+				(sum, song) =>
+					sum +
+					(options.secondsPerSong !== undefined ? options.secondsPerSong * 1000 : song.durationMs),
+				0
+			);
+	}
+
+	const completed = callsPerTrial.length;
+	const sorted = [...callsPerTrial].sort((a, b) => a - b);
+	const percentile = (p: number) =>
+		completed > 0 ? sorted[Math.min(completed - 1, Math.floor(p * completed))] : 0;
+
+	const histogram = new Map<number, number>();
+	for (const calls of sorted) {
+		histogram.set(calls, (histogram.get(calls) ?? 0) + 1);
+	}
+
+	return {
+		trials: completed,
+		songsInPlay: songs.length,
+		callsToFirstWin: Array.from(histogram, ([calls, count]) => ({ calls, count })),
+		mean: completed > 0 ? sorted.reduce((sum, calls) => sum + calls, 0) / completed : 0,
+		median: percentile(0.5),
+		p10: percentile(0.1),
+		p90: percentile(0.9),
+		min: sorted[0] ?? 0,
+		max: sorted[completed - 1] ?? 0,
+		expectedWinners: completed > 0 ? totalWinners / completed : 0,
+		expectedDurationMs: completed > 0 ? totalDurationMs / completed : 0
+	};
+}
@@ -1,11 +1,12 @@
 import * as v from 'valibot';
 import { query } from '$app/server';
-import { getPlaylistFromLink } from '$lib/server/spotify';
-import type { PlaylistData } from '$lib/interfaces/spotify.interface';
+import { getPlaylistsFromSources, resolveSource } from '$lib/server/music-source';
+import { playlistSourceSchema } from '$lib/utils/board-set';
+import type { PlaylistData, PlaylistSource } from '$lib/interfaces/spotify.interface';
 
 /**
- * Fetch playlist data from a Spotify playlist link
- * Validates the input is a non-empty string (the playlist link)
+ * Fetch playlist data from a Spotify playlist, album or artist link
+ * Validates the input is a non-empty string (the link)
  */
 export const fetchPlaylist = query(
 	v.pipe(
@@ -13,6 +14,17 @@ export const fetchPlaylist = query(
 		v.minLength(1, 'Playlist link cannot be empty')
 	),
 	async (playlistLink: string): Promise<PlaylistData> => {
-		return getPlaylistFromLink(playlistLink);
+		return resolveSource(playlistLink);
+	}
+);
+
+/**
+ * Fetch several playlists and merge them into one de-duplicated song pool
+ * Each source link can carry a weight that makes its songs more likely to land on boards
+ */
+export const fetchPlaylists = query(
+	v.pipe(v.array(playlistSourceSchema), v.minLength(1, 'At least one playlist link is required')),
+	async (sources: PlaylistSource[]): Promise<PlaylistData> => {
+		return getPlaylistsFromSources(sources);
 	}
 );
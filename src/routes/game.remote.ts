@@ -0,0 +1,53 @@
+import * as v from 'valibot';
+import { error } from '@sveltejs/kit';
+import { query } from '$app/server';
+import { findBoard, verifyClaim } from '$lib/utils/bingo';
+import { boardSetExportSchema, generateBoardSetFromConfig } from '$lib/utils/board-set';
+import { getPatternIssue, winPatternSchema } from '$lib/utils/patterns';
+import { getPlaylistsFromSources } from '$lib/server/music-source';
+import type { ClaimVerification } from '$lib/utils/bingo';
+
+/**
+ * Verify a player's bingo claim by board ID or serial number
+ * Regenerates the board set from its config and checks the board against the called songs
+ * Imported song lists have no playlists to refetch, so their song pool comes with the config
+ */
+export const verifyBoardClaim = query(
+	v.object({
+		config: boardSetExportSchema,
+		board: v.pipe(v.string(), v.minLength(1, 'Board ID or serial cannot be empty')),
+		calledSongIds: v.array(v.string()),
+		pattern: winPatternSchema
+	}),
+	async ({
+		config,
+		board: reference,
+		calledSongIds,
+		pattern
+	}): Promise<ClaimVerification & { boardId: string; serial: number }> => {
+		const patternIssue = getPatternIssue(pattern, config.boardSize);
+		if (patternIssue) error(400, patternIssue);
+
+		const pool = config.songs ?? (await getPlaylistsFromSources(config.playlists)).songs;
+		const { boards } = generateBoardSetFromConfig(pool, config);
+
+		const match = findBoard(boards, reference);
+		if (!match) {
+			error(404, `No board "${reference}" in this game (serials run from 1 to ${boards.length})`);
+		}
+
+		// A called song missing from the pool would shift the call count, so it fails the check
+		const songsById = new Map(pool.map((song) => [song.id, song]));
+		const unknownIds = calledSongIds.filter((id) => !songsById.has(id));
+		if (unknownIds.length > 0) {
+			error(400, `Called songs not in this game: ${unknownIds.join(', ')}`);
+		}
+		const calledSongs = calledSongIds.map((id) => songsById.get(id)!);
+
+		return {
+			boardId: match.board.id,
+			serial: match.serial,
+			...verifyClaim(match.board, calledSongs, pattern)
+		};
+	}
+);
@@ -1,52 +1,148 @@
 import * as v from 'valibot';
-import { query } from '$app/server';
+import { command, getRequestEvent } from '$app/server';
 import { generateBingoBoardsCanvasPDF, generateBingoBoardsImagesZip } from '$lib/server/canvas-pdf-export';
-import { generateMultipleBoards } from '$lib/utils/bingo';
-import { getPlaylistFromLink } from '$lib/server/spotify';
-
-interface PDFExportRequest {
-	playlistLink: string;
-	boardCount: number;
-	boardSize: number;
-	includeFreeSpace: boolean;
+import { generateBingoBoardsVectorPDF } from '$lib/server/vector-pdf-export';
+import { generateMasterSheetPDF } from '$lib/server/master-sheet-pdf';
+import { generateCallDeckPDF } from '$lib/server/call-deck-export';
+import {
+	boardLinkSearchParams,
+	boardSetExportSchema,
+	generateBoardSetFromConfig
+} from '$lib/utils/board-set';
+import type { BoardSetConfig } from '$lib/utils/board-set';
+import {
+	PAGE_SIZES,
+	PDF_OUTPUT_MODES,
+	printLayoutSchema,
+	type PageSize,
+	type PdfOutputMode,
+	type PrintLayoutOptions
+} from '$lib/utils/print-layout';
+import { cardBrandingSchema, type CardBranding } from '$lib/utils/card-branding';
+import { CARD_THEME_IDS, CARD_THEMES, type CardThemeId } from '$lib/utils/card-theme';
+import {
+	getMasterSheet,
+	MASTER_SHEET_ORDERS,
+	type MasterSheetOrder
+} from '$lib/utils/master-sheet';
+import { getCallOrderSeed } from '$lib/utils/caller';
+import type { BingoBoard } from '$lib/utils/bingo';
+import type { PlaylistSongInfo } from '$lib/interfaces/spotify.interface';
+import { getPlaylistsFromSources } from '$lib/server/music-source';
+
+type ExportRequest = BoardSetConfig & {
+	/** Song pool of an imported song list, used instead of fetching the playlists */
+	songs?: PlaylistSongInfo[];
+	/** Event title, logo, serial and footer printed on every card */
+	branding?: CardBranding;
+	/** Print a QR code linking to the digital version of each board */
+	qrCode?: boolean;
+	/** Built-in card theme (default: classic) */
+	theme?: CardThemeId;
+	/** Downscale album art to the cell size before drawing (faster for big sets) */
+	downscaleArt?: boolean;
+};
+
+const exportRequestSchema = v.object({
+	...boardSetExportSchema.entries,
+	branding: v.optional(cardBrandingSchema),
+	qrCode: v.optional(v.boolean()),
+	theme: v.optional(v.picklist(CARD_THEME_IDS)),
+	downscaleArt: v.optional(v.boolean())
+});
+
+/**
+ * Get the song pool for an export: the songs sent along, or the fetched playlists
+ */
+async function getExportSongs(data: ExportRequest): Promise<PlaylistSongInfo[]> {
+	if (data.songs) return data.songs;
+	const playlist = await getPlaylistsFromSources(data.playlists);
+	return playlist.songs;
 }
 
+/**
+ * Get the QR code link builder for an export, pointing at the board page of this site
+ * Imported song lists have no playlist links to rebuild the boards from, so they get no QR codes
+ */
+function getBoardUrlBuilder(data: ExportRequest) {
+	if (!data.qrCode || data.songs) return undefined;
+	const { origin } = getRequestEvent().url;
+	return (_board: BingoBoard, boardNumber: number) =>
+		`${origin}/board?${boardLinkSearchParams(data, boardNumber)}`;
+}
+
+type ExportedFile = { buffer: string; filename: string };
+
 /**
  * Export bingo boards as a single PDF with full Unicode support
- * Uses Canvas rendering for proper Japanese and international character support
+ * Uses Canvas rendering for proper Japanese and international character support, or with
+ * output "vector", real text and lines with embedded Noto fonts (smaller and searchable)
+ * A command (POST) rather than a query so a free space image fits in the request
+ * The optional layout sets page size, orientation, boards per page, margins and crop marks
+ * With masterSheet set, the host's master sheet for the same boards comes back alongside
  */
-export const exportPDF = query(
-	v.pipe(
-		v.object({
-			playlistLink: v.string(),
-			boardCount: v.number(),
-			boardSize: v.number(),
-			includeFreeSpace: v.boolean()
-		})
-	),
-	async (data: PDFExportRequest): Promise<{ buffer: string; filename: string }> => {
-		// Fetch playlist from Spotify
-		const playlist = await getPlaylistFromLink(data.playlistLink);
-
-		// Generate boards on server
-		const boards = generateMultipleBoards(
-			playlist.songs,
-			data.boardCount,
-			data.boardSize,
-			data.includeFreeSpace
-		);
-
-		// Generate PDF with Canvas (full Unicode support)
-		const buffer = await generateBingoBoardsCanvasPDF(boards, data.includeFreeSpace);
+export const exportPDF = command(
+	v.object({
+		...exportRequestSchema.entries,
+		layout: v.optional(printLayoutSchema),
+		output: v.optional(v.picklist(PDF_OUTPUT_MODES)),
+		masterSheet: v.optional(v.picklist(MASTER_SHEET_ORDERS))
+	}),
+	async (
+		data: ExportRequest & {
+			layout?: PrintLayoutOptions;
+			output?: PdfOutputMode;
+			masterSheet?: MasterSheetOrder;
+		}
+	): Promise<ExportedFile & { masterSheet?: ExportedFile }> => {
+		// Fetch and merge the playlists (or use the imported songs)
+		const songs = await getExportSongs(data);
+
+		// Regenerate the previewed boards from the same seed
+		const { boards } = generateBoardSetFromConfig(songs, data);
+
+		// Generate PDF with Canvas (full Unicode support) or as vector text and lines
+		const options = {
+			layout: data.layout,
+			branding: data.branding,
+			getBoardUrl: getBoardUrlBuilder(data),
+			theme: data.theme && CARD_THEMES[data.theme],
+			downscaleArt: data.downscaleArt
+		};
+		const buffer =
+			data.output === 'vector'
+				? await generateBingoBoardsVectorPDF(boards, options)
+				: await generateBingoBoardsCanvasPDF(boards, options);
 
 		// Convert buffer to base64 for transmission
 		const base64 = buffer.toString('base64');
 		const timestamp = new Date().toISOString().split('T')[0];
 
-		return {
+		const cards = {
 			buffer: base64,
 			filename: `bingo_boards_${timestamp}.pdf`
 		};
+		if (!data.masterSheet) return cards;
+
+		// Master sheet from the same boards, in a call order seeded from the board set
+		const entries = getMasterSheet(boards, {
+			order: data.masterSheet,
+			seed: getCallOrderSeed(data.seed),
+			songs
+		});
+		const masterSheet = await generateMasterSheetPDF(entries, boards.length, {
+			order: data.masterSheet,
+			pageSize: data.layout?.pageSize,
+			title: data.branding?.title
+		});
+
+		return {
+			...cards,
+			masterSheet: {
+				buffer: masterSheet.toString('base64'),
+				filename: `bingo_master_sheet_${timestamp}.pdf`
+			}
+		};
 	}
 );
 
@@ -54,29 +150,22 @@ export const exportPDF = query(
  * Export bingo boards as individual PNG images in a ZIP file
  * Uses Canvas for better international character support (Japanese, Chinese, etc.)
  */
-export const exportZIP = query(
-	v.pipe(
-		v.object({
-			playlistLink: v.string(),
-			boardCount: v.number(),
-			boardSize: v.number(),
-			includeFreeSpace: v.boolean()
-		})
-	),
-	async (data: PDFExportRequest): Promise<{ buffer: string; filename: string }> => {
-		// Fetch playlist from Spotify
-		const playlist = await getPlaylistFromLink(data.playlistLink);
-
-		// Generate boards on server
-		const boards = generateMultipleBoards(
-			playlist.songs,
-			data.boardCount,
-			data.boardSize,
-			data.includeFreeSpace
-		);
+export const exportZIP = command(
+	exportRequestSchema,
+	async (data: ExportRequest): Promise<{ buffer: string; filename: string }> => {
+		// Fetch and merge the playlists (or use the imported songs)
+		const songs = await getExportSongs(data);
+
+		// Regenerate the previewed boards from the same seed
+		const { boards } = generateBoardSetFromConfig(songs, data);
 
 		// Generate ZIP with individual PNG images (better Unicode support)
-		const buffer = await generateBingoBoardsImagesZip(boards, data.includeFreeSpace);
+		const buffer = await generateBingoBoardsImagesZip(boards, {
+			branding: data.branding,
+			getBoardUrl: getBoardUrlBuilder(data),
+			theme: data.theme && CARD_THEMES[data.theme],
+			downscaleArt: data.downscaleArt
+		});
 
 		// Convert buffer to base64 for transmission
 		const base64 = buffer.toString('base64');
@@ -88,3 +177,26 @@ export const exportZIP = query(
 		};
 	}
 );
+
+/**
+ * Export the call deck: a PDF of cut-out cards, one per song in the pool, for drawing
+ * songs from a hat instead of using the host page
+ */
+export const exportCallDeck = command(
+	v.object({ ...exportRequestSchema.entries, pageSize: v.optional(v.picklist(PAGE_SIZES)) }),
+	async (data: ExportRequest & { pageSize?: PageSize }): Promise<ExportedFile> => {
+		// Fetch and merge the playlists (or use the imported songs)
+		const songs = await getExportSongs(data);
+
+		const buffer = await generateCallDeckPDF(songs, { pageSize: data.pageSize });
+
+		// Convert buffer to base64 for transmission
+		const base64 = buffer.toString('base64');
+		const timestamp = new Date().toISOString().split('T')[0];
+
+		return {
+			buffer: base64,
+			filename: `bingo_call_deck_${timestamp}.pdf`
+		};
+	}
+);